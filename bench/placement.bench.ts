@@ -0,0 +1,139 @@
+// Placement search benchmarks. Run with `bun run bench`.
+//
+// Compares the run index used by the engine against scanning every
+// (row, col, direction) with canPlaceWord, which is how candidates used to be
+// found, and times whole generations on large masks. Masks are ellipses so
+// there are plenty of short runs near the edges, like a real photo outline.
+
+import { generate } from 'random-words';
+import {
+  DIRECTIONS,
+  canPlaceWord,
+  createGrid,
+  createPlacementIndex,
+  generateWordSearch,
+  placeWordInGrid,
+  toWordSearchWord,
+  type PlacementPosition,
+  type WordSource
+} from '../src/lib/word-search-engine';
+import { createRandom } from '../src/lib/random';
+
+interface PaperSize {
+  name: string;
+  width: number; // mm
+  height: number; // mm
+}
+
+const PAPER_SIZES: PaperSize[] = [
+  { name: 'A4', width: 210, height: 297 },
+  { name: 'A3', width: 297, height: 420 },
+];
+
+// Same unit as charactersPerMm in the store: millimetres per character
+const DENSITIES = [4, 2, 1];
+
+function ellipseMask(width: number, height: number): boolean[][] {
+  return Array.from({ length: height }, (_, row) =>
+    Array.from({ length: width }, (_, col) =>
+      ((row - height / 2) / (height / 2)) ** 2 + ((col - width / 2) / (width / 2)) ** 2 < 1
+    )
+  );
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+}
+
+// Median of several runs after one warm-up, so JIT warm-up and stray GC
+// pauses don't decide a comparison of two short timings
+function timeMedian<T>(run: () => T, runs = 7): { result: T; ms: number } {
+  const { result } = time(run);
+  const times = Array.from({ length: runs }, () => time(run).ms).sort((a, b) => a - b);
+  return { result, ms: times[Math.floor(runs / 2)] };
+}
+
+async function timeAsync<T>(run: () => Promise<T>): Promise<{ result: T; ms: number }> {
+  const start = performance.now();
+  const result = await run();
+  return { result, ms: performance.now() - start };
+}
+
+function bruteForcePositions(word: string, grid: ReturnType<typeof createGrid>, mask: boolean[][]): PlacementPosition[] {
+  const positions: PlacementPosition[] = [];
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[0].length; col++) {
+      for (const direction of DIRECTIONS) {
+        if (canPlaceWord(word, row, col, direction, grid, mask)) positions.push({ row, col, direction });
+      }
+    }
+  }
+  return positions;
+}
+
+const randomWordSource: WordSource = async ({ count, seed, minLength, maxLength }) =>
+  (generate({ exactly: count, seed, minLength, maxLength }) as string[]).map(word => ({ word: word.toUpperCase(), hint: '' }));
+
+// Candidate lookups on a grid that already holds some words, so the index
+// has letters to check against
+function benchmarkLookups(mask: boolean[][]) {
+  const random = createRandom(1);
+  const grid = createGrid(mask, () => 'X');
+  const index = createPlacementIndex(mask, DIRECTIONS, grid);
+  const seedWords = (generate({ exactly: 40, seed: 'bench', minLength: 4, maxLength: 10 }) as string[])
+    .map((word, i) => toWordSearchWord({ word: word.toUpperCase(), hint: '' }, `bench-${i}`));
+
+  for (const word of seedWords) {
+    const positions = index.findPositions(word.word, true);
+    if (positions.length > 0) placeWordInGrid(word, random.pick(positions), grid, index);
+  }
+
+  const probes = ['CAT', 'ELEPHANT', 'WORDSEARCH'];
+  const indexed = timeMedian(() => probes.map(word => index.findPositions(word, true)));
+  const scanned = timeMedian(() => probes.map(word => bruteForcePositions(word, grid, mask)));
+  // What placement actually calls: one weighted pick without listing every candidate
+  const picked = timeMedian(() => probes.map(word => index.pickPosition(word, true, random, 1)));
+
+  const matches = indexed.result.every((positions, i) => positions.length === scanned.result[i].length);
+  return { indexedMs: indexed.ms, scannedMs: scanned.ms, pickMs: picked.ms, matches };
+}
+
+const rows: Record<string, string | number | boolean>[] = [];
+
+for (const paper of PAPER_SIZES) {
+  for (const mmPerCharacter of DENSITIES) {
+    const width = Math.floor(paper.width / mmPerCharacter);
+    const height = Math.floor(paper.height / mmPerCharacter);
+    const mask = ellipseMask(width, height);
+
+    const { ms: buildMs } = time(() => createPlacementIndex(mask, DIRECTIONS));
+    const lookups = benchmarkLookups(mask);
+
+    // Silence the engine's progress logging while timing whole runs
+    const log = console.log;
+    console.log = () => {};
+    const generation = await timeAsync(() =>
+      generateWordSearch(mask, [], randomWordSource, { seed: 42, directions: DIRECTIONS })
+    );
+    console.log = log;
+
+    rows.push({
+      paper: paper.name,
+      mmPerCharacter,
+      grid: `${width}×${height}`,
+      buildIndexMs: Math.round(buildMs),
+      lookupsIndexedMs: Number(lookups.indexedMs.toFixed(1)),
+      lookupsScannedMs: Number(lookups.scannedMs.toFixed(1)),
+      pickMs: Number(lookups.pickMs.toFixed(1)),
+      sameCandidates: lookups.matches,
+      generateMs: Math.round(generation.ms),
+      wordsPlaced: generation.result.report.placedWords,
+      coverage: Number(generation.result.report.coverage.toFixed(3)),
+      stopReason: generation.result.report.coverageStopReason,
+    });
+  }
+}
+
+console.table(rows);
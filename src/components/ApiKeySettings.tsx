@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { KeyRound, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { useGeminiStore } from '@/lib/gemini';
+
+// Settings for the user's own Gemini key. The key is tested before it's
+// saved and kept only in this browser's localStorage.
+export function ApiKeySettings() {
+  const [apiKey, setApiKey] = useState('');
+  const [testPassed, setTestPassed] = useState<boolean | null>(null);
+  const { isInitialized, isTestingKey, keyError, hasSavedKey, actions } = useGeminiStore();
+
+  const handleTest = async () => {
+    setTestPassed(await actions.testApiKey(apiKey));
+  };
+
+  const handleSave = async () => {
+    if (await actions.saveApiKey(apiKey)) {
+      setApiKey('');
+      setTestPassed(null);
+    } else {
+      setTestPassed(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded border border-gray-200 p-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="api-key-input" className="text-sm font-medium flex items-center gap-1">
+          <KeyRound className="w-4 h-4" />
+          Gemini API Key
+        </Label>
+        {isInitialized ? (
+          <span className="text-xs text-green-700 flex items-center gap-1">
+            <CheckCircle2 className="w-3 h-3" />
+            {hasSavedKey ? 'Saved in this browser' : 'Connected'}
+          </span>
+        ) : (
+          <span className="text-xs text-orange-700 flex items-center gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            No key set
+          </span>
+        )}
+      </div>
+      <input
+        id="api-key-input"
+        type="password"
+        value={apiKey}
+        onChange={(e) => {
+          setApiKey(e.target.value);
+          setTestPassed(null);
+        }}
+        placeholder={isInitialized ? 'Enter a new key to replace it' : 'Paste your Google AI API key'}
+        autoComplete="off"
+        className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={handleTest} disabled={!apiKey.trim() || isTestingKey}>
+          {isTestingKey && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Test
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!apiKey.trim() || isTestingKey}
+          className="bg-purple-600 hover:bg-purple-700"
+        >
+          Save
+        </Button>
+        {hasSavedKey && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={actions.forgetApiKey}
+            className="text-gray-500 hover:text-red-600 hover:bg-red-50"
+          >
+            Forget Key
+          </Button>
+        )}
+      </div>
+      {testPassed === true && <p className="text-xs text-green-700">Key works</p>}
+      {keyError && <p className="text-xs text-red-600">{keyError}</p>}
+      <p className="text-xs text-gray-500">
+        Stored only in this browser and sent only to Google. Get a key from{' '}
+        <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="underline">
+          Google AI Studio
+        </a>
+        .
+      </p>
+    </div>
+  );
+}
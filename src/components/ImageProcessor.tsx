@@ -5,7 +5,11 @@ import { Upload, ImageIcon, Crop as CropIcon, Sliders, Check, X, ArrowLeft, Scis
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Slider } from './ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ThresholdHistogram } from './ThresholdHistogram';
 import { useImageStore } from '@/lib/image-store';
+import { useWordSearchStore } from '@/lib/word-search-store';
+import { THRESHOLD_MODE_LABELS, type AdaptiveMethod, type MaskStyle, type ThresholdMode } from '@/lib/threshold';
 import 'react-image-crop/dist/ReactCrop.css';
 
 interface ImageProcessorProps {
@@ -26,12 +30,24 @@ export function ImageProcessor({ onComplete, onCancel, aspectRatio }: ImageProce
     croppedImage,
     thresholdImage,
     previewThresholdImage,
+    previewOutlineImage,
+    outlineImage,
     thresholdValue,
+    thresholdMode,
+    adaptiveMethod,
+    adaptiveWindowSize,
+    adaptiveOffset,
+    histogram,
+    appliedThreshold,
+    maskStyle,
+    strokeWidth,
     isProcessing,
     step,
     error,
     actions
   } = useImageStore();
+  // Sizes the outline preview's stroke to the letters it will hold
+  const gridWidth = useWordSearchStore(state => state.gridWidth);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
@@ -56,31 +72,62 @@ export function ImageProcessor({ onComplete, onCancel, aspectRatio }: ImageProce
   const handleCropComplete = useCallback(async () => {
     if (!completedCrop || !imgRef.current) return;
 
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    actions.setError(null);
+    try {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
 
-    const scaleX = imgRef.current.naturalWidth / imgRef.current.width;
-    const scaleY = imgRef.current.naturalHeight / imgRef.current.height;
+      const scaleX = imgRef.current.naturalWidth / imgRef.current.width;
+      const scaleY = imgRef.current.naturalHeight / imgRef.current.height;
 
-    canvas.width = completedCrop.width * scaleX;
-    canvas.height = completedCrop.height * scaleY;
+      canvas.width = completedCrop.width * scaleX;
+      canvas.height = completedCrop.height * scaleY;
 
-    ctx.drawImage(
-      imgRef.current,
-      completedCrop.x * scaleX,
-      completedCrop.y * scaleY,
-      completedCrop.width * scaleX,
-      completedCrop.height * scaleY,
-      0,
-      0,
-      canvas.width,
-      canvas.height
-    );
+      ctx.drawImage(
+        imgRef.current,
+        completedCrop.x * scaleX,
+        completedCrop.y * scaleY,
+        completedCrop.width * scaleX,
+        completedCrop.height * scaleY,
+        0,
+        0,
+        canvas.width,
+        canvas.height
+      );
 
-    const croppedImageUrl = canvas.toDataURL('image/png');
-    actions.setCroppedImage(croppedImageUrl);
-  }, [completedCrop, actions]);
+      const croppedImageUrl = canvas.toDataURL('image/png');
+
+      // Background removal paints the background white; colour mosaics want the
+      // photo as taken, cut to the same area (removal keeps the image size)
+      let croppedColorImageUrl: string | null = null;
+      if (backgroundRemovedImage && originalImage) {
+        const original = new Image();
+        await new Promise((resolve, reject) => {
+          original.onload = resolve;
+          original.onerror = reject;
+          original.src = originalImage;
+        });
+        ctx.drawImage(
+          original,
+          completedCrop.x * scaleX,
+          completedCrop.y * scaleY,
+          completedCrop.width * scaleX,
+          completedCrop.height * scaleY,
+          0,
+          0,
+          canvas.width,
+          canvas.height
+        );
+        croppedColorImageUrl = canvas.toDataURL('image/png');
+      }
+
+      actions.setCroppedImage(croppedImageUrl, croppedColorImageUrl);
+    } catch (error) {
+      console.error('❌ Error cropping image:', error);
+      actions.setError("Couldn't crop the image. Try uploading it again.");
+    }
+  }, [completedCrop, backgroundRemovedImage, originalImage, actions]);
 
   const handleThresholdChange = useCallback((value: number[]) => {
     console.log('🎛️ Threshold slider changed:', value[0]);
@@ -150,14 +197,14 @@ export function ImageProcessor({ onComplete, onCancel, aspectRatio }: ImageProce
       console.log('⏱️ Manual threshold change - setting timeout for 300ms');
       const timer = setTimeout(() => {
         console.log('🚀 Processing threshold after manual change with value:', thresholdValue);
-        actions.processThreshold();
+        actions.processThreshold(gridWidth);
       }, 300);
       return () => {
         console.log('🧹 Clearing manual threshold processing timeout');
         clearTimeout(timer);
       };
     }
-  }, [thresholdValue, step, croppedImage, actions]);
+  }, [thresholdValue, thresholdMode, adaptiveMethod, adaptiveWindowSize, adaptiveOffset, maskStyle, strokeWidth, gridWidth, step, croppedImage, actions]);
 
   // Log threshold step state
   useEffect(() => {
@@ -335,6 +382,7 @@ export function ImageProcessor({ onComplete, onCancel, aspectRatio }: ImageProce
                 />
               </ReactCrop>
             </div>
+            {error && <div className="text-red-600 text-sm font-medium text-center">{error}</div>}
             <div className="flex justify-end space-x-2">
               <Button variant="secondary" className="text-white" onClick={() => actions.setStep('bg-removal')}>
                 Back
@@ -369,7 +417,7 @@ export function ImageProcessor({ onComplete, onCancel, aspectRatio }: ImageProce
                     <div className="text-sm text-gray-500">Processing...</div>
                   ) : previewThresholdImage ? (
                     <img
-                      src={previewThresholdImage}
+                      src={previewOutlineImage ?? previewThresholdImage}
                       alt="Threshold preview"
                       className="w-full h-full object-contain"
                     />
@@ -381,23 +429,122 @@ export function ImageProcessor({ onComplete, onCancel, aspectRatio }: ImageProce
             </div>
             
             <div className="space-y-2">
-              <label className="text-sm font-medium">
-                Threshold: {thresholdValue}
-              </label>
+              <div className="flex items-center justify-between gap-4">
+                <label className="text-sm font-medium">Threshold Mode</label>
+                <Select value={thresholdMode} onValueChange={(value: ThresholdMode) => actions.setThresholdMode(value)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(THRESHOLD_MODE_LABELS) as ThresholdMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>
+                        {THRESHOLD_MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {histogram && <ThresholdHistogram histogram={histogram} cutoff={appliedThreshold} />}
+            </div>
+
+            {thresholdMode === 'global' && (
               <div className="space-y-2">
-                <Slider
-                  value={[thresholdValue]}
-                  onValueChange={handleThresholdChange}
-                  max={255}
-                  min={0}
-                  step={1}
-                  className="w-full"
-                />
+                <label className="text-sm font-medium">
+                  Threshold: {thresholdValue}
+                </label>
+                <div className="space-y-2">
+                  <Slider
+                    value={[thresholdValue]}
+                    onValueChange={handleThresholdChange}
+                    max={255}
+                    min={0}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>0 (Dark)</span>
+                  <span>255 (Light)</span>
+                </div>
               </div>
-              <div className="flex justify-between text-xs text-gray-500">
-                <span>0 (Dark)</span>
-                <span>255 (Light)</span>
+            )}
+
+            {thresholdMode === 'otsu' && (
+              <p className="text-sm text-gray-600">
+                Cutoff picked from the image: {appliedThreshold ?? '…'}. Switch to Manual to fine-tune it.
+              </p>
+            )}
+
+            {thresholdMode === 'adaptive' && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <label className="text-sm font-medium">Local Average</label>
+                  <Select value={adaptiveMethod} onValueChange={(value: AdaptiveMethod) => actions.setAdaptiveMethod(value)}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mean">Mean</SelectItem>
+                      <SelectItem value="gaussian">Gaussian</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Window: {adaptiveWindowSize}px</label>
+                  <Slider
+                    value={[adaptiveWindowSize]}
+                    onValueChange={(value) => actions.setAdaptiveWindowSize(value[0])}
+                    min={3}
+                    max={151}
+                    step={2}
+                    className="w-full"
+                  />
+                  <span className="text-xs text-gray-500">Larger windows follow lighting changes more loosely</span>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Offset: {adaptiveOffset}</label>
+                  <Slider
+                    value={[adaptiveOffset]}
+                    onValueChange={(value) => actions.setAdaptiveOffset(value[0])}
+                    min={-30}
+                    max={50}
+                    step={1}
+                    className="w-full"
+                  />
+                  <span className="text-xs text-gray-500">Higher values keep only pixels well below their surroundings</span>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <label className="text-sm font-medium">Letters Fill</label>
+                <Select value={maskStyle} onValueChange={(value: MaskStyle) => actions.setMaskStyle(value)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="filled">The whole shape</SelectItem>
+                    <SelectItem value="outline">Only its outline</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
+              {maskStyle === 'outline' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">
+                    Stroke Width: {strokeWidth} {strokeWidth === 1 ? 'letter' : 'letters'}
+                  </label>
+                  <Slider
+                    value={[strokeWidth]}
+                    onValueChange={(value) => actions.setStrokeWidth(value[0])}
+                    min={1}
+                    max={8}
+                    step={1}
+                    className="w-full"
+                  />
+                  <span className="text-xs text-gray-500">Letters follow a band this wide just inside the shape's edges</span>
+                </div>
+              )}
             </div>
             
             <div className="flex justify-end space-x-2">
@@ -420,7 +567,7 @@ export function ImageProcessor({ onComplete, onCancel, aspectRatio }: ImageProce
           <div className="text-center space-y-4">
             <div className="w-full max-w-sm mx-auto">
               <img
-                src={thresholdImage}
+                src={outlineImage ?? thresholdImage}
                 alt="Final processed image"
                 className="w-full border rounded"
               />
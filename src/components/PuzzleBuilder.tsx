@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
-import { ArrowLeft, Grid3X3, Settings, Sparkles, X, Sliders } from 'lucide-react';
+import { ArrowLeft, Grid3X3, Settings, Sparkles, X, Sliders, Dices, Lightbulb, Loader2, Upload } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
@@ -9,10 +9,28 @@ import { Textarea } from './ui/textarea';
 import { Badge } from './ui/badge';
 import { Label } from './ui/label';
 import { Switch } from './ui/switch';
+import { Slider } from './ui/slider';
 
-import { useGeminiStore, type WordWithHint } from '@/lib/gemini';
+import { useGeminiStore } from '@/lib/gemini';
 import { useImageStore } from '@/lib/image-store';
-import { useWordSearchStore } from '@/lib/word-search-store';
+import { useWordSearchStore, type MaskMode, type MaskRegion, type PlacementMode, type WordDirection } from '@/lib/word-search-store';
+import { DIRECTIONS, DIRECTION_ARROWS, MASK_REGIONS, MASK_REGION_LABELS } from '@/lib/word-search-engine';
+import { DIFFICULTY_PRESETS, type Difficulty } from '@/lib/difficulty';
+import { TONE_MODE_LABELS, type ToneMode } from '@/lib/tone';
+import { MOSAIC_MODE_LABELS, PALETTE_SIZES, type MosaicMode } from '@/lib/mosaic';
+import { BLOCKLIST_LOCALE_LABELS, getBlocklistLocales } from '@/lib/blocklist';
+import { WORD_PROVIDER_LABELS, type WordProviderId } from '@/lib/word-providers';
+import {
+  WORD_IMPORT_ACCEPT,
+  checkWordImport,
+  detectImportFormat,
+  parseWordList,
+  type WordImportPreview as ImportPreview
+} from '@/lib/word-import';
+import { MIN_WORD_LENGTH, SEPARATOR_POLICY_LABELS, type SeparatorPolicy } from '@/lib/word-normalize';
+import type { WordWithHint } from '@/lib/gemini';
+import { ApiKeySettings } from './ApiKeySettings';
+import { WordImportPreview } from './WordImportPreview';
 import { ImageProcessor } from './ImageProcessor';
 import { WordSearchGrid } from './WordSearchGrid';
 
@@ -37,16 +55,55 @@ const VIEWPORT_SIZES: Record<ViewportSize, ViewportDimensions> = {
 export function PuzzleBuilder() {
   const [selectedViewport, setSelectedViewport] = useState<ViewportSize>('A4');
   const [isHorizontal, setIsHorizontal] = useState(false);
-  const [words, setWords] = useState<string[]>([]);
   const [showImageProcessor, setShowImageProcessor] = useState(false);
   const [showPuzzle, setShowPuzzle] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [addRegion, setAddRegion] = useState<MaskRegion>('shape');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { initializeGemini, generateWords } = useGeminiStore(state => state.actions);
-  const { thresholdImage, actions: imageActions } = useImageStore();
+  const { loadSavedApiKey, generateWords, setProvider, setOpenAiCompatibleConfig } = useGeminiStore(state => state.actions);
+  const providerId = useGeminiStore(state => state.providerId);
+  const isGeminiReady = useGeminiStore(state => state.isInitialized);
+  // Gemini picked but no key: clues need a model, themed words fall back to the dictionary
+  const needsApiKey = providerId === 'gemini' && !isGeminiReady;
+  const wordProviderError = useGeminiStore(state => state.error);
+  const modelError = useGeminiStore(state => state.modelError);
+  const openAiCompatibleConfig = useGeminiStore(state => state.openAiCompatibleConfig);
+  const { thresholdImage, outlineImage, actions: imageActions } = useImageStore();
   const { 
     charactersPerMm, 
+    seed,
+    difficulty,
+    allowedDirections,
+    placementMode,
+    allowOverlap,
+    overlapWeight,
+    targetCoverage,
+    blocklistLocale,
+    extraBlockedWords,
+    theme,
+    backgroundTheme,
+    maskMode,
+    toneMode,
+    mosaicMode,
+    paletteSize,
+    wordListMode,
+    isGeneratingClues,
+    words: puzzleWords,
+    gridWidth,
+    gridHeight,
+    separatorPolicy,
+    foldDiacritics,
     actions: wordSearchActions 
   } = useWordSearchStore();
+  // The list the user is building; words the engine added are shown with the puzzle
+  const words = puzzleWords.filter(word => !word.generated);
+  // Only dual-region puzzles keep a separate list for the background
+  const newWordRegion = maskMode === 'dual' ? addRegion : undefined;
+  const wordGroups: { region: MaskRegion | null; words: typeof words }[] = maskMode === 'dual'
+    ? MASK_REGIONS.map(region => ({ region, words: words.filter(word => (word.region ?? 'shape') === region) }))
+    : [{ region: null, words }];
 
   const { register, watch, setValue, reset } = useForm<PuzzleBuilderForm>({
     defaultValues: {
@@ -55,8 +112,8 @@ export function PuzzleBuilder() {
   });
 
   useEffect(() => {
-    initializeGemini(import.meta.env.VITE_GOOGLE_AI_API_KEY);
-  }, []);
+    loadSavedApiKey();
+  }, [loadSavedApiKey]);
 
   // Update word search store when viewport changes
   useEffect(() => {
@@ -73,35 +130,64 @@ export function PuzzleBuilder() {
 
   const currentWord = watch('currentWord');
 
+  const toggleDirection = (direction: WordDirection) => {
+    const next = allowedDirections.includes(direction)
+      ? allowedDirections.filter(d => d !== direction)
+      : [...allowedDirections, direction];
+    // Keep at least one direction so the engine always has somewhere to go
+    if (next.length > 0) {
+      wordSearchActions.setAllowedDirections(DIRECTIONS.filter(d => next.includes(d)));
+    }
+  };
+
+  // A single clean word goes straight in; lists, and anything rejected, get
+  // the preview first
+  const reviewEntries = (entries: WordWithHint[]) => {
+    setImportError(null);
+    const preview = checkWordImport(entries, words.map(w => w.word), {
+      separators: separatorPolicy,
+      foldDiacritics,
+      minLength: MIN_WORD_LENGTH,
+      maxLength: Math.max(gridWidth, gridHeight)
+    });
+    if (preview.accepted.length === 1 && preview.rejected.length === 0) {
+      wordSearchActions.addWord(preview.accepted[0], newWordRegion);
+    } else {
+      setImportPreview(preview);
+    }
+  };
+
   const handleAddWord = () => {
-    const word = currentWord.trim().toUpperCase();
-    if (word && !words.includes(word)) {
-      const newWords = [...words, word];
-      setWords(newWords);
-      
-      // Convert to WordWithHint format and update word search store
-      const wordsWithHints: WordWithHint[] = newWords.map(w => ({
-        word: w.toUpperCase(),
-        hint: `Find the word: ${w.toUpperCase()}`
-      }));
-      wordSearchActions.setWords(wordsWithHints);
-      
-      setValue('currentWord', '');
+    const entries = parseWordList(currentWord, 'text');
+    if (entries.length === 0) return;
+    reviewEntries(entries);
+    setValue('currentWord', '');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be picked again
+    if (!file) return;
+
+    try {
+      console.log('📥 Importing word list:', file.name);
+      reviewEntries(parseWordList(await file.text(), detectImportFormat(file.name)));
+    } catch (error) {
+      setImportError(`Couldn't read ${file.name}: ${error instanceof Error ? error.message : 'unknown error'}`);
     }
   };
 
+  const confirmImport = () => {
+    importPreview?.accepted.forEach(word => wordSearchActions.addWord(word, newWordRegion));
+    setImportPreview(null);
+  };
+
   const handleGenerateWords = async () => {
     try {
-      const generatedWords = await generateWords(5);
-      const newWords = [...words, ...generatedWords.map(w => w.word)];
-      setWords(newWords);
-      
-      // Update word search store with all words including hints
-      const allWordsWithHints: WordWithHint[] = [
-        ...words.map(w => ({ word: w.toUpperCase(), hint: `Find the word: ${w.toUpperCase()}` })),
-        ...generatedWords
-      ];
-      wordSearchActions.setWords(allWordsWithHints);
+      const generatedWords = await generateWords(5, newWordRegion === 'background' ? backgroundTheme : theme);
+      generatedWords
+        .filter(generated => !words.some(w => w.word === generated.word))
+        .forEach(generated => wordSearchActions.addWord(generated, newWordRegion));
     } catch (error) {
       console.error('Failed to generate words:', error);
     }
@@ -114,16 +200,8 @@ export function PuzzleBuilder() {
     }
   };
 
-  const removeWord = (wordToRemove: string) => {
-    const newWords = words.filter(word => word !== wordToRemove);
-    setWords(newWords);
-    
-    // Update word search store
-    const wordsWithHints: WordWithHint[] = newWords.map(w => ({
-      word: w.toUpperCase(),
-      hint: `Find the word: ${w.toUpperCase()}`
-    }));
-    wordSearchActions.setWords(wordsWithHints);
+  const removeWord = (id: string) => {
+    wordSearchActions.removeWord(puzzleWords.findIndex(word => word.id === id));
   };
 
   const handleGeneratePuzzle = async () => {
@@ -225,6 +303,215 @@ export function PuzzleBuilder() {
                         <span className="text-xs text-gray-500">Smaller = denser text</span>
                       </div>
                     </div>
+                    <div>
+                      <Label htmlFor="seed" className="text-sm font-medium">Seed</Label>
+                      <div className="flex items-center space-x-2 mt-1">
+                        <input
+                          id="seed"
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={seed}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (!Number.isNaN(value) && value >= 0) wordSearchActions.setSeed(value);
+                          }}
+                          className="w-32 px-2 py-1 text-sm border border-gray-300 rounded"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={wordSearchActions.randomizeSeed}
+                          className="text-purple-600 hover:bg-purple-50"
+                          title="New random seed"
+                        >
+                          <Dices className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <span className="text-xs text-gray-500">Same seed, image and words = same puzzle</span>
+                    </div>
+                    <div className="col-span-2">
+                      <Label className="text-sm font-medium">Difficulty</Label>
+                      <Select value={difficulty} onValueChange={(value: Difficulty) => wordSearchActions.setDifficulty(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(DIFFICULTY_PRESETS).map(([key, preset]) => (
+                            <SelectItem key={key} value={key}>
+                              {preset.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs text-gray-500">{DIFFICULTY_PRESETS[difficulty].description}</span>
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium">Word Placement</Label>
+                      <Select value={placementMode} onValueChange={(value: PlacementMode) => wordSearchActions.setPlacementMode(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="random">Quick (random)</SelectItem>
+                          <SelectItem value="backtracking">Thorough (fit every word)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium">Overlap Preference: {overlapWeight}</Label>
+                      <Slider
+                        value={[overlapWeight]}
+                        onValueChange={(value) => wordSearchActions.setOverlapWeight(value[0])}
+                        min={0}
+                        max={4}
+                        step={0.5}
+                        disabled={!allowOverlap}
+                        className="w-full mt-3"
+                      />
+                      <span className="text-xs text-gray-500">
+                        {allowOverlap ? 'Higher = words cross more often' : 'Overlaps are off at this difficulty'}
+                      </span>
+                    </div>
+                    <div className="col-span-2">
+                      <Label className="text-sm font-medium">Words Go In</Label>
+                      <Select value={maskMode} onValueChange={(value: MaskMode) => wordSearchActions.setMaskMode(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="dark">The dark shape</SelectItem>
+                          <SelectItem value="light">The light background (inverted)</SelectItem>
+                          <SelectItem value="dual">Both, with a word list each</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs text-gray-500">
+                        {maskMode === 'dual'
+                          ? 'Add words to the shape or the background below; each gets its own theme'
+                          : 'The other part of the image is filled with random letters'}
+                      </span>
+                    </div>
+                    <div className="col-span-2">
+                      <Label className="text-sm font-medium">Target Word Coverage: {Math.round(targetCoverage * 100)}%</Label>
+                      <Slider
+                        value={[targetCoverage]}
+                        onValueChange={(value) => wordSearchActions.setTargetCoverage(value[0])}
+                        min={0.3}
+                        max={1}
+                        step={0.05}
+                        className="w-full mt-3"
+                      />
+                      <span className="text-xs text-gray-500">Share of the silhouette filled with real words before random letters</span>
+                    </div>
+                    <div className="col-span-2">
+                      <Label className="text-sm font-medium">Word Directions</Label>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {DIRECTIONS.map(direction => (
+                          <Button
+                            key={direction}
+                            variant="outline"
+                            size="sm"
+                            title={direction}
+                            onClick={() => toggleDirection(direction)}
+                            className={allowedDirections.includes(direction)
+                              ? 'w-9 bg-purple-600 text-white border-purple-600 hover:bg-purple-700'
+                              : 'w-9 text-gray-500 border-gray-200 hover:bg-purple-50'}
+                          >
+                            {DIRECTION_ARROWS[direction]}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium">Filler Word Filter</Label>
+                      <Select value={blocklistLocale} onValueChange={(value) => wordSearchActions.setBlocklistLocale(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {getBlocklistLocales().map(locale => (
+                            <SelectItem key={locale} value={locale}>
+                              {BLOCKLIST_LOCALE_LABELS[locale] ?? locale}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="none">Off</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium">Also Block</Label>
+                      <input
+                        key={blocklistLocale}
+                        type="text"
+                        defaultValue={(extraBlockedWords[blocklistLocale] ?? []).join(', ')}
+                        onBlur={(e) => wordSearchActions.setExtraBlockedWords(blocklistLocale, e.target.value.split(/[\s,]+/).filter(Boolean))}
+                        placeholder="Comma-separated words"
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                      />
+                      <span className="text-xs text-gray-500">Filler letters never spell these; saved for this language</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="text-sm text-gray-600">Clue Mode</span>
+                        <p className="text-xs text-gray-500">Printed list shows only clues</p>
+                      </div>
+                      <Switch 
+                        checked={wordListMode === 'hints'} 
+                        onCheckedChange={(checked) => wordSearchActions.setWordListMode(checked ? 'hints' : 'words')}
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium">Letter Tone</Label>
+                      <Select value={toneMode} onValueChange={(value: ToneMode) => wordSearchActions.setToneMode(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(TONE_MODE_LABELS) as ToneMode[]).map(mode => (
+                            <SelectItem key={mode} value={mode}>
+                              {TONE_MODE_LABELS[mode]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs text-gray-500">Letters get darker where the photo is darker, like a halftone</span>
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium">Colour Mosaic</Label>
+                      <Select value={mosaicMode} onValueChange={(value: MosaicMode) => wordSearchActions.setMosaicMode(value)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(MOSAIC_MODE_LABELS) as MosaicMode[]).map(mode => (
+                            <SelectItem key={mode} value={mode}>
+                              {MOSAIC_MODE_LABELS[mode]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs text-gray-500">Tints the puzzle with the photo's colours</span>
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium">Mosaic Palette</Label>
+                      <Select
+                        value={String(paletteSize)}
+                        onValueChange={(value) => wordSearchActions.setPaletteSize(Number(value))}
+                        disabled={mosaicMode === 'off'}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PALETTE_SIZES.map(size => (
+                            <SelectItem key={size} value={String(size)}>
+                              {size === 0 ? 'Full colour' : `${size} colours`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs text-gray-500">Fewer colours suit printers with limited inks</span>
+                    </div>
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-gray-600">Show Puzzle</span>
                       <Switch 
@@ -287,7 +574,7 @@ export function PuzzleBuilder() {
                     >
                       <div className="relative w-full h-full">
                         <img
-                          src={thresholdImage}
+                          src={outlineImage ?? thresholdImage}
                           alt="Processed image"
                           className="w-full h-full object-contain rounded-lg"
                         />
@@ -303,26 +590,169 @@ export function PuzzleBuilder() {
                   <CardTitle className="text-lg">Add Words</CardTitle>
                 </CardHeader>
                 <CardContent>
+                  <div className="space-y-2 mb-4">
+                    <Label className="text-sm font-medium">Word Source</Label>
+                    <Select value={providerId} onValueChange={(value: WordProviderId) => setProvider(value)}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(WORD_PROVIDER_LABELS) as WordProviderId[]).map(id => (
+                          <SelectItem key={id} value={id}>
+                            {WORD_PROVIDER_LABELS[id]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {providerId === 'gemini' && <ApiKeySettings />}
+                    {providerId === 'random-words' && (
+                      <span className="text-xs text-gray-500">Ignores the theme and gives no hints</span>
+                    )}
+                    {providerId === 'openai-compatible' && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <input
+                          type="text"
+                          defaultValue={openAiCompatibleConfig.baseUrl}
+                          onBlur={(e) => setOpenAiCompatibleConfig({ baseUrl: e.target.value.trim() })}
+                          placeholder="Server URL"
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                        />
+                        <input
+                          type="text"
+                          defaultValue={openAiCompatibleConfig.model}
+                          onBlur={(e) => setOpenAiCompatibleConfig({ model: e.target.value.trim() })}
+                          placeholder="Model"
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                        />
+                        <input
+                          type="password"
+                          defaultValue={openAiCompatibleConfig.apiKey}
+                          onBlur={(e) => setOpenAiCompatibleConfig({ apiKey: e.target.value.trim() })}
+                          placeholder="API key (optional)"
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                        />
+                      </div>
+                    )}
+                    {modelError && (providerId === 'gemini' || providerId === 'openai-compatible') && (
+                      <p className="text-xs text-red-600">
+                        Last model request failed: {modelError}. Anything it couldn't supply came from the offline dictionary.
+                      </p>
+                    )}
+                  </div>
                   <div className="space-y-2">
-                    <Label htmlFor="word-input">Type words and press Enter to add them</Label>
+                    <Label htmlFor="theme-input">Theme</Label>
+                    <input
+                      id="theme-input"
+                      type="text"
+                      value={theme}
+                      onChange={(e) => wordSearchActions.setTheme(e.target.value)}
+                      placeholder="e.g. ocean animals, Diwali"
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                    />
+                    <span className="text-xs text-gray-500">Generated words and auto-fill follow this theme; leave empty for random words</span>
+                    {needsApiKey && (theme.trim() || (maskMode === 'dual' && backgroundTheme.trim())) && (
+                      <span className="block text-xs text-orange-700">No Gemini API key, so themed words come from the offline dictionary</span>
+                    )}
+                  </div>
+                  {maskMode === 'dual' && (
+                    <div className="space-y-2 mt-4">
+                      <Label htmlFor="background-theme-input">Background Theme</Label>
+                      <input
+                        id="background-theme-input"
+                        type="text"
+                        value={backgroundTheme}
+                        onChange={(e) => wordSearchActions.setBackgroundTheme(e.target.value)}
+                        placeholder="e.g. habitats"
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                      />
+                      <span className="text-xs text-gray-500">Used for words generated for the background; the theme above is for the shape</span>
+                      <div className="flex items-center justify-between">
+                        <Label className="text-sm font-medium">Add Words To</Label>
+                        <Select value={addRegion} onValueChange={(value: MaskRegion) => setAddRegion(value)}>
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MASK_REGIONS.map(region => (
+                              <SelectItem key={region} value={region}>
+                                {MASK_REGION_LABELS[region]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+                  <div className="space-y-2 mt-4">
+                    <Label htmlFor="word-input">Type or paste words and press Enter to add them</Label>
                     <div className="flex gap-2">
                     <Textarea
                       id="word-input"
-                      placeholder="Type a word and press Enter..."
+                      placeholder="Type a word, or paste a list (one per line or comma-separated), and press Enter..."
                       className="min-h-[120px]"
                       {...register('currentWord')}
                       onKeyDown={handleKeyPress}
                     />
-                    <Button 
-                      variant="outline" 
-                      size="sm" 
-                      onClick={handleGenerateWords}
-                      className="border-purple-200 text-purple-600 hover:bg-purple-50"
-                    >
-                      <Sparkles className="w-4 h-4 mr-2" />
-                      Generate 5 Words
-                    </Button>
+                    <div className="flex flex-col gap-2">
+                      <Button 
+                        variant="outline" 
+                        size="sm" 
+                        onClick={handleGenerateWords}
+                        className="border-purple-200 text-purple-600 hover:bg-purple-50"
+                      >
+                        <Sparkles className="w-4 h-4 mr-2" />
+                        Generate 5 Words
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => fileInputRef.current?.click()}
+                        title="Plain text, CSV or TSV (word,hint) or a JSON array of {word, hint}"
+                      >
+                        <Upload className="w-4 h-4 mr-2" />
+                        Import File
+                      </Button>
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={WORD_IMPORT_ACCEPT}
+                        onChange={handleImportFile}
+                        className="hidden"
+                      />
                     </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label className="text-xs text-gray-600">Spaces &amp; Hyphens</Label>
+                        <Select value={separatorPolicy} onValueChange={(value: SeparatorPolicy) => wordSearchActions.setSeparatorPolicy(value)}>
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(SEPARATOR_POLICY_LABELS) as SeparatorPolicy[]).map(policy => (
+                              <SelectItem key={policy} value={policy}>
+                                {SEPARATOR_POLICY_LABELS[policy]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="text-xs text-gray-600">Fold Accents</span>
+                          <p className="text-xs text-gray-500">CAFÉ becomes CAFE</p>
+                        </div>
+                        <Switch checked={foldDiacritics} onCheckedChange={wordSearchActions.setFoldDiacritics} />
+                      </div>
+                    </div>
+                    {importError && <p className="text-xs text-red-600">{importError}</p>}
+                    {importPreview && (
+                      <WordImportPreview
+                        preview={importPreview}
+                        onConfirm={confirmImport}
+                        onCancel={() => setImportPreview(null)}
+                      />
+                    )}
                     <div className="flex justify-between items-center text-sm text-gray-500">
                       <span>Press Enter to add words</span>
                       <span>{words.length} words added</span>
@@ -343,7 +773,6 @@ export function PuzzleBuilder() {
                       variant="ghost" 
                       size="sm" 
                       onClick={() => {
-                        setWords([]);
                         wordSearchActions.setWords([]);
                         reset();
                       }}
@@ -355,29 +784,73 @@ export function PuzzleBuilder() {
                   </div>
                 </CardHeader>
                 <CardContent className="h-full overflow-y-auto">
+                  {/* Outside the list so a failed first fill still says why nothing appeared */}
+                  {wordProviderError && (
+                    <p className="text-xs text-red-600 mb-3">{wordProviderError}</p>
+                  )}
                   {words.length === 0 ? (
                     <div className="flex flex-col items-center justify-center h-32 text-gray-500">
                       <p className="text-center">No words added yet</p>
                       <p className="text-sm text-center mt-1">Start typing in the text area to add words</p>
                     </div>
                   ) : (
-                    <div className="space-y-2">
-                      {words.map((word, index) => (
-                        <Badge
-                          key={index}
-                          variant="secondary"
-                          className="flex items-center justify-between w-full px-3 py-2 text-sm"
-                        >
-                          <span className="capitalize">{word}</span>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="h-4 w-4 p-0 hover:bg-red-100 text-gray-500 hover:text-red-600"
-                            onClick={() => removeWord(word)}
-                          >
-                            ×
-                          </Button>
-                        </Badge>
+                    <div className="space-y-3">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={wordSearchActions.generateClues}
+                        disabled={isGeneratingClues || needsApiKey}
+                        className="w-full border-purple-200 text-purple-600 hover:bg-purple-50"
+                        title="Fills in clues for words that don't have one yet"
+                      >
+                        {isGeneratingClues ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <Lightbulb className="w-4 h-4 mr-2" />
+                        )}
+                        Generate Clues
+                      </Button>
+                      {needsApiKey && (
+                        <p className="text-xs text-gray-500">
+                          Clues need a Gemini API key. Add one under Word Source, or switch to another word source.
+                        </p>
+                      )}
+                      {wordGroups.map(({ region, words: groupWords }) => (
+                        <div key={region ?? 'all'} className="space-y-3">
+                          {region && (
+                            <p className="text-xs font-semibold text-gray-500">
+                              {MASK_REGION_LABELS[region]} ({groupWords.length})
+                            </p>
+                          )}
+                          {groupWords.map(({ id, word, hint, display }) => (
+                            <div key={id} className="space-y-1">
+                              <Badge
+                                variant="secondary"
+                                className={`flex items-center justify-between w-full px-3 py-2 text-sm${region === 'background' ? ' bg-sky-100 text-sky-800' : ''}`}
+                              >
+                                <span>
+                                  <span className="capitalize">{word}</span>
+                                  {display && <span className="ml-2 text-xs font-normal text-gray-500">{display}</span>}
+                                </span>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-4 w-4 p-0 hover:bg-red-100 text-gray-500 hover:text-red-600"
+                                  onClick={() => removeWord(id)}
+                                >
+                                  ×
+                                </Button>
+                              </Badge>
+                              <input
+                                type="text"
+                                value={hint}
+                                onChange={(e) => wordSearchActions.updateWordHint(id, e.target.value)}
+                                placeholder="Clue"
+                                className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                              />
+                            </div>
+                          ))}
+                        </div>
                       ))}
                     </div>
                   )}
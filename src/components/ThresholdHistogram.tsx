@@ -0,0 +1,30 @@
+interface ThresholdHistogramProps {
+  histogram: number[];
+  cutoff: number | null; // Null when each pixel has its own cutoff
+}
+
+const HEIGHT = 48;
+
+// Grayscale histogram of the cropped image with the cutoff marked. Counts are
+// square-rooted so a big background peak doesn't flatten everything else.
+export function ThresholdHistogram({ histogram, cutoff }: ThresholdHistogramProps) {
+  const scaled = histogram.map(count => Math.sqrt(count));
+  const peak = Math.max(1, ...scaled);
+  const outline = scaled.map((value, i) => `L${i} ${HEIGHT - (value / peak) * HEIGHT}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 256 ${HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-12 rounded border bg-gray-50"
+      role="img"
+      aria-label={cutoff === null ? 'Brightness histogram' : `Brightness histogram with cutoff at ${cutoff}`}
+    >
+      {cutoff !== null && <rect x={0} y={0} width={cutoff + 1} height={HEIGHT} className="fill-purple-100" />}
+      <path d={`M0 ${HEIGHT} ${outline} L255 ${HEIGHT} Z`} className="fill-gray-500" />
+      {cutoff !== null && (
+        <line x1={cutoff + 0.5} x2={cutoff + 0.5} y1={0} y2={HEIGHT} strokeWidth={1.5} className="stroke-red-500" />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,62 @@
+import { Check, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { WORD_IMPORT_REJECTION_LABELS, type WordImportPreview as Preview } from '@/lib/word-import';
+
+interface WordImportPreviewProps {
+  preview: Preview;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Review step for pasted or imported lists: what will be added and what was
+// left out, and why
+export function WordImportPreview({ preview, onConfirm, onCancel }: WordImportPreviewProps) {
+  const { accepted, rejected } = preview;
+
+  return (
+    <div className="space-y-3 rounded border border-purple-200 bg-purple-50/50 p-3">
+      <div className="text-sm font-medium text-gray-700">
+        {accepted.length} {accepted.length === 1 ? 'word' : 'words'} ready to add
+        {rejected.length > 0 && `, ${rejected.length} rejected`}
+      </div>
+
+      {accepted.length > 0 && (
+        <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+          {accepted.map(({ word, hint }) => (
+            <Badge key={word} variant="secondary" title={hint || undefined}>
+              {word}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {rejected.length > 0 && (
+        <div className="space-y-1 max-h-32 overflow-y-auto">
+          {rejected.map(({ entry, reason }, index) => (
+            <div key={index} className="flex items-center justify-between text-xs">
+              <span className="font-mono text-gray-700 truncate">{entry.word || '(blank)'}</span>
+              <span className="text-red-600 ml-2 shrink-0">{WORD_IMPORT_REJECTION_LABELS[reason]}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={onConfirm}
+          disabled={accepted.length === 0}
+          className="bg-purple-600 hover:bg-purple-700"
+        >
+          <Check className="w-4 h-4 mr-2" />
+          Add {accepted.length} {accepted.length === 1 ? 'Word' : 'Words'}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,30 @@
-
-import { useWordSearchStore } from '@/lib/word-search-store';
+import { useMemo, useState } from 'react';
+import { useWordSearchStore, type GridCell } from '@/lib/word-search-store';
+import {
+  DIRECTION_ARROWS,
+  MASK_REGIONS,
+  MASK_REGION_LABELS,
+  getWordCells,
+  type CoverageStopReason,
+  type MaskRegion
+} from '@/lib/word-search-engine';
+import { buildPrintDocument, openPrintWindow } from '@/lib/print';
+import { letterTone } from '@/lib/tone';
+import { mosaicColors, mosaicStyle } from '@/lib/mosaic';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import { Shuffle, RotateCcw, Loader2, Printer } from 'lucide-react';
+import { Shuffle, RotateCcw, Loader2, X, Printer, Copy, Eye, EyeOff, KeyRound, ShieldCheck, AlertTriangle } from 'lucide-react';
+
+const COVERAGE_STOP_REASONS: Record<CoverageStopReason, string> = {
+  'target-reached': 'Reached the target coverage',
+  'no-room': 'No free stretch left long enough for another word, and overlaps are off',
+  'source-exhausted': 'The word source stopped supplying words that fit',
+  'iteration-limit': 'Stopped after the maximum number of word requests',
+  'ambiguous-words': 'Dropped words that could be read twice after the last top-up',
+  'source-error': 'The word source failed',
+  'no-source': 'Only your own words were placed',
+};
 
 interface WordSearchGridProps {
   className?: string;
@@ -19,166 +40,66 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
     error,
     paperWidth,
     paperHeight,
+    report,
+    wordListMode,
+    toneMode,
+    mosaicMode,
+    paletteSize,
     actions 
   } = useWordSearchStore();
 
+  const [showAnswers, setShowAnswers] = useState(false);
+  const [hoveredWordId, setHoveredWordId] = useState<string | null>(null);
+  const [selectedCell, setSelectedCell] = useState<{ row: number; col: number } | null>(null);
+
   const placedWords = words.filter(word => word.placed);
   const unplacedWords = words.filter(word => !word.placed);
+  // Dual-region puzzles tag every cell, and list each region's words apart
+  const isDualRegion = grid.some(row => row.some(cell => cell.region));
+  const placedWordGroups: { region: MaskRegion | null; words: typeof placedWords }[] = isDualRegion
+    ? MASK_REGIONS.map(region => ({ region, words: placedWords.filter(word => (word.region ?? 'shape') === region) }))
+    : [{ region: null, words: placedWords }];
+  const unplacedReasons = new Map(report?.unplacedWords.map(entry => [entry.id, entry.reason]));
+  const wordsById = new Map(words.map(word => [word.id, word]));
+  const selectedCellWords = selectedCell
+    ? (grid[selectedCell.row]?.[selectedCell.col]?.wordIds ?? []).flatMap(id => wordsById.get(id) ?? [])
+    : [];
 
-  // Print functionality
-  const handlePrint = () => {
-    if (grid.length === 0) return;
+  // Cells covered by placed words, following each word's actual direction
+  const answerCells = useMemo(() => new Set(
+    words.flatMap(word => getWordCells(word).map(({ row, col }) => `${row},${col}`))
+  ), [words]);
 
-    // Calculate print dimensions
-    const gridCols = grid[0]?.length || 0;
-    const gridRows = grid.length;
-    
-    // Calculate optimal cell size for print based on paper size and character density
-    const availableWidth = paperWidth * 0.8; // Use 80% of paper width for margins
-    const availableHeight = paperHeight * 0.6; // Use 60% of paper height for grid (rest for word list)
-    
-    const cellWidthMm = availableWidth / gridCols;
-    const cellHeightMm = availableHeight / gridRows;
-    const cellSizeMm = Math.min(cellWidthMm, cellHeightMm, 6); // Max 6mm per cell
-    
-    // Create print content
-    const printContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Word Search Puzzle</title>
-          <style>
-            @page {
-              size: ${paperWidth}mm ${paperHeight}mm;
-              margin: 10mm;
-            }
-            
-            @media print {
-              body { margin: 0; padding: 0; }
-              .no-print { display: none !important; }
-            }
-            
-            body {
-              font-family: 'Courier New', monospace;
-              font-size: 12px;
-              line-height: 1.2;
-              color: #000;
-              background: #fff;
-            }
-            
-            .puzzle-container {
-              width: 100%;
-              max-width: ${paperWidth - 20}mm;
-              margin: 0 auto;
-            }
-            
-            .puzzle-title {
-              text-align: center;
-              font-size: 18px;
-              font-weight: bold;
-              margin-bottom: 10mm;
-              font-family: Arial, sans-serif;
-            }
-            
-            .grid-container {
-              display: flex;
-              justify-content: center;
-              margin-bottom: 8mm;
-            }
-            
-            .grid {
-              border: 2px solid #000;
-              background: #fff;
-            }
-            
-            .grid-row {
-              display: flex;
-            }
-            
-            .grid-cell {
-              width: ${cellSizeMm}mm;
-              height: ${cellSizeMm}mm;
-              border: 1px solid #000;
-              display: flex;
-              align-items: center;
-              justify-content: center;
-              font-weight: bold;
-              font-size: ${Math.max(6, cellSizeMm * 0.6)}px;
-              background: #fff;
-            }
-            
-            .word-list {
-              margin-top: 5mm;
-            }
-            
-            .word-list-title {
-              font-size: 14px;
-              font-weight: bold;
-              margin-bottom: 3mm;
-              font-family: Arial, sans-serif;
-            }
-            
-            .words-grid {
-              display: grid;
-              grid-template-columns: repeat(auto-fit, minmax(80px, 1fr));
-              gap: 2mm;
-              font-size: 11px;
-            }
-            
-            .word-item {
-              padding: 1mm;
-              border: 1px solid #ccc;
-              text-align: center;
-              background: #f8f8f8;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="puzzle-container">
-            <div class="puzzle-title">Word Search Puzzle</div>
-            
-            <div class="grid-container">
-              <div class="grid">
-                ${grid.map(row => `
-                  <div class="grid-row">
-                    ${row.map(cell => `
-                      <div class="grid-cell">${cell.letter || ''}</div>
-                    `).join('')}
-                  </div>
-                `).join('')}
-              </div>
-            </div>
-            
-            ${placedWords.length > 0 ? `
-              <div class="word-list">
-                <div class="word-list-title">Find these words:</div>
-                <div class="words-grid">
-                  ${placedWords.map(word => `
-                    <div class="word-item">${word.word}</div>
-                  `).join('')}
-                </div>
-              </div>
-            ` : ''}
-          </div>
-        </body>
-      </html>
-    `;
+  // Palette reduction looks at the whole grid, so it's worked out once per change
+  const cellColors = useMemo(
+    () => (mosaicMode === 'off' ? null : mosaicColors(grid, paletteSize)),
+    [grid, mosaicMode, paletteSize]
+  );
 
-    // Open print window
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      printWindow.document.write(printContent);
-      printWindow.document.close();
-      printWindow.focus();
-      
-      // Trigger print dialog after content loads
-      printWindow.onload = () => {
-        printWindow.print();
-        printWindow.close();
-      };
+  const handleCopySeed = () => {
+    if (report) {
+      navigator.clipboard?.writeText(String(report.seed));
     }
   };
 
+  // Print functionality
+  const handlePrint = (includeAnswerKey: boolean) => {
+    if (grid.length === 0) return;
+
+    openPrintWindow(buildPrintDocument({
+      grid,
+      words,
+      paperWidth,
+      paperHeight,
+      seed: report?.seed,
+      wordListMode,
+      toneMode,
+      mosaicMode,
+      paletteSize,
+      includeAnswerKey
+    }));
+  };
+
   // Calculate appropriate cell size based on grid dimensions
   const getCellSize = () => {
     if (grid.length === 0) return 20;
@@ -190,26 +111,40 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
 
   const cellSize = getCellSize();
 
+  // Highlights override the letter tone and colour so they stay readable
+  const isHighlighted = (cell: GridCell, rowIndex: number, colIndex: number) =>
+    (hoveredWordId !== null && cell.wordIds.includes(hoveredWordId))
+    || (selectedCell?.row === rowIndex && selectedCell?.col === colIndex)
+    || (showAnswers && answerCells.has(`${rowIndex},${colIndex}`));
+
   // Helper function to determine cell styling
-  const getCellStyling = (cell: any, rowIndex: number, colIndex: number) => {
+  const getCellStyling = (cell: GridCell, rowIndex: number, colIndex: number) => {
     // During generation, show available positions
     if (isGenerating && availablePositions.length > 0) {
       const isAvailable = availablePositions[rowIndex]?.[colIndex];
       
       if (cell.isWordLetter) {
-        return 'bg-purple-200 text-purple-900 border-purple-300';
+        return cell.region === 'background'
+          ? 'bg-sky-200 text-sky-900 border-sky-300'
+          : 'bg-purple-200 text-purple-900 border-purple-300';
       } else if (cell.letter) {
         return 'bg-gray-100 text-gray-700 border-gray-200';
-      } else if (isAvailable) {
+      } else if (isAvailable || cell.region) {
         return 'bg-green-50 text-green-600 border-green-200 animate-pulse';
       } else {
         return 'bg-red-50 text-red-400 border-red-200';
       }
     }
     
-    // Normal display after generation
-    if (cell.isWordLetter) {
+    // Normal display after generation; answers stay hidden until asked for
+    if (hoveredWordId && cell.wordIds.includes(hoveredWordId)) {
+      return 'bg-yellow-200 text-yellow-900 border-yellow-300';
+    } else if (selectedCell?.row === rowIndex && selectedCell?.col === colIndex) {
+      return 'bg-blue-100 text-blue-900 border-blue-400';
+    } else if (showAnswers && answerCells.has(`${rowIndex},${colIndex}`)) {
       return 'bg-purple-100 text-purple-800 border-purple-200';
+    } else if (cell.region === 'background') {
+      return 'bg-sky-50 text-sky-800 border-sky-100';
     } else if (cell.letter) {
       return 'bg-gray-50 text-gray-600 border-gray-200';
     } else {
@@ -249,6 +184,15 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
                 <p className="font-semibold text-gray-900">Generating Puzzle...</p>
                 <p className="text-sm text-purple-600 mt-1">{generationStep}</p>
               </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={actions.cancelGeneration}
+                className="text-gray-600"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
             </div>
           </CardContent>
         </Card>
@@ -274,6 +218,12 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
                         <div className="w-3 h-3 bg-purple-100 border border-purple-200 rounded"></div>
                         <span className="text-xs">Words</span>
                       </div>
+                      {isDualRegion && (
+                        <div className="flex items-center gap-1">
+                          <div className="w-3 h-3 bg-sky-100 border border-sky-200 rounded"></div>
+                          <span className="text-xs">Background words</span>
+                        </div>
+                      )}
                     </>
                   )}
                 </div>
@@ -351,18 +301,65 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
       {/* Grid Display */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
-          <CardTitle className="text-lg">Word Search Puzzle</CardTitle>
+          <div className="flex items-center gap-2">
+            <CardTitle className="text-lg">Word Search Puzzle</CardTitle>
+            {report?.uniqueVerified && (
+              <Badge variant="secondary" className="bg-green-100 text-green-800" title="Every word appears exactly once">
+                <ShieldCheck className="w-3 h-3 mr-1" />
+                Verified unique
+              </Badge>
+            )}
+            {report && report.ambiguousWords.length > 0 && (
+              <Badge
+                variant="outline"
+                className="border-orange-200 text-orange-700"
+                title={`Readable more than once: ${report.ambiguousWords.join(', ')}`}
+              >
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {report.ambiguousWords.length} ambiguous
+              </Badge>
+            )}
+            {report && report.blockedWordsRemaining.length > 0 && (
+              <Badge
+                variant="outline"
+                className="border-red-200 text-red-700"
+                title={`Spelled by hidden words, so filler can't remove them: ${report.blockedWordsRemaining.join(', ')}`}
+              >
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {report.blockedWordsRemaining.length} blocked
+              </Badge>
+            )}
+          </div>
           <div className="flex gap-2">
             <Button
               variant="outline"
               size="sm"
-              onClick={handlePrint}
+              onClick={() => setShowAnswers(!showAnswers)}
+              className="text-purple-600 border-purple-200 hover:bg-purple-50"
+            >
+              {showAnswers ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+              {showAnswers ? 'Hide Answers' : 'Show Answers'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePrint(false)}
               disabled={isGenerating || grid.length === 0}
               className="text-blue-600 border-blue-200 hover:bg-blue-50"
             >
               <Printer className="w-4 h-4 mr-2" />
               Print
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePrint(true)}
+              disabled={isGenerating || grid.length === 0}
+              className="text-blue-600 border-blue-200 hover:bg-blue-50"
+            >
+              <KeyRound className="w-4 h-4 mr-2" />
+              Print with Answers
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -402,14 +399,21 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
                     <div
                       key={colIndex}
                       className={`
-                        flex items-center justify-center border font-bold
+                        flex items-center justify-center border font-bold cursor-pointer
                         ${getCellStyling(cell, rowIndex, colIndex)}
                       `}
                       style={{
                         width: `${cellSize}px`,
                         height: `${cellSize}px`,
-                        fontSize: `${Math.max(6, cellSize - 8)}px`
+                        fontSize: `${Math.max(6, cellSize - 8)}px`,
+                        ...(isHighlighted(cell, rowIndex, colIndex) ? {} : {
+                          ...letterTone(cell.luminance, toneMode),
+                          ...mosaicStyle(cellColors?.[rowIndex][colIndex], mosaicMode)
+                        })
                       }}
+                      onClick={() => setSelectedCell(
+                        selectedCell?.row === rowIndex && selectedCell?.col === colIndex ? null : { row: rowIndex, col: colIndex }
+                      )}
                     >
                       {cell.letter}
                     </div>
@@ -418,6 +422,30 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
               ))}
             </div>
             
+            {/* Selected Cell */}
+            {selectedCell && (
+              <div className="text-sm text-gray-700 text-center">
+                <span className="font-semibold">
+                  Row {selectedCell.row + 1}, column {selectedCell.col + 1}:
+                </span>{' '}
+                {selectedCellWords.length === 0 ? (
+                  <span className="text-gray-500">filler letter</span>
+                ) : (
+                  selectedCellWords.map(word => (
+                    <Badge
+                      key={word.id}
+                      variant="secondary"
+                      className="ml-1 bg-yellow-100 text-yellow-800"
+                      onMouseEnter={() => setHoveredWordId(word.id)}
+                      onMouseLeave={() => setHoveredWordId(null)}
+                    >
+                      {word.word}
+                    </Badge>
+                  ))
+                )}
+              </div>
+            )}
+            
             {/* Grid Stats */}
             <div className="text-xs text-gray-500 text-center">
               <p>Grid: {grid[0]?.length || 0} × {grid.length} characters</p>
@@ -425,6 +453,32 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
                 Characters: {grid.flat().filter(cell => cell.letter).length} / {grid.flat().length} 
                 ({((grid.flat().filter(cell => cell.letter).length / grid.flat().length) * 100).toFixed(1)}% filled)
               </p>
+              {report && (
+                <p>Words: {report.placedWords} placed, {report.overlapCount} shared letters</p>
+              )}
+              {report && (
+                <p title={COVERAGE_STOP_REASONS[report.coverageStopReason]}>
+                  Word coverage: {(report.coverage * 100).toFixed(1)}% (target {Math.round(report.targetCoverage * 100)}%)
+                  {report.wordToFillerRatio !== null && `, ${report.wordToFillerRatio.toFixed(2)} word letters per filler letter`}
+                </p>
+              )}
+              {report?.sourceError && (
+                <p className="text-red-600">Word source failed, so coverage stopped short: {report.sourceError}</p>
+              )}
+              {report && (
+                <p className="flex items-center justify-center gap-1">
+                  Seed: <span className="font-mono select-all">{report.seed}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleCopySeed}
+                    className="h-5 px-1 text-gray-500 hover:text-purple-600"
+                    title="Copy seed"
+                  >
+                    <Copy className="w-3 h-3" />
+                  </Button>
+                </p>
+              )}
             </div>
           </div>
         </CardContent>
@@ -440,18 +494,39 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
             </CardTitle>
           </CardHeader>
           <CardContent>
+            {wordListMode === 'hints' && placedWords.length > 0 && (
+              <p className="text-xs text-gray-500 mb-2">Clue mode: the printed list shows only the clues</p>
+            )}
             {placedWords.length === 0 ? (
               <p className="text-sm text-gray-500">No words placed yet</p>
             ) : (
-              <div className="space-y-2">
-                {placedWords.map((word, index) => (
-                  <div key={index} className="flex items-center justify-between">
-                    <Badge variant="secondary" className="bg-green-100 text-green-800">
-                      {word.word}
-                    </Badge>
-                    <div className="text-xs text-gray-500">
-                      {word.direction} ({word.startRow}, {word.startCol})
-                    </div>
+              <div className="space-y-3">
+                {placedWordGroups.map(({ region, words: groupWords }) => (
+                  <div key={region ?? 'all'} className="space-y-2">
+                    {region && (
+                      <p className="text-xs font-semibold text-gray-500">
+                        {MASK_REGION_LABELS[region]} ({groupWords.length})
+                      </p>
+                    )}
+                    {groupWords.map(word => (
+                      <div
+                        key={word.id}
+                        className="flex items-center justify-between rounded hover:bg-yellow-50 cursor-default"
+                        onMouseEnter={() => setHoveredWordId(word.id)}
+                        onMouseLeave={() => setHoveredWordId(null)}
+                      >
+                        <Badge
+                          variant="secondary"
+                          className={region === 'background' ? 'bg-sky-100 text-sky-800' : 'bg-green-100 text-green-800'}
+                        >
+                          {word.word}
+                          {word.display && <span className="ml-1 font-normal opacity-80">({word.display})</span>}
+                        </Badge>
+                        <div className="text-xs text-gray-500">
+                          {DIRECTION_ARROWS[word.direction]} {word.direction} ({word.startRow}, {word.startCol})
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -469,14 +544,21 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
             </CardHeader>
             <CardContent>
               <div className="space-y-2">
-                {unplacedWords.map((word, index) => (
-                  <Badge key={index} variant="outline" className="border-orange-200 text-orange-700">
-                    {word.word}
-                  </Badge>
+                {unplacedWords.map(word => (
+                  <div key={word.id} className="flex items-center justify-between">
+                    <Badge variant="outline" className="border-orange-200 text-orange-700">
+                      {word.word}
+                    </Badge>
+                    <div className="text-xs text-gray-500">
+                      {unplacedReasons.get(word.id) === 'too-long' && 'Too long for any run in the image'}
+                      {unplacedReasons.get(word.id) === 'conflict' && 'Conflicts with other words'}
+                    </div>
+                  </div>
                 ))}
               </div>
               <p className="text-xs text-gray-500 mt-2">
                 These words couldn't be placed in the available space
+                {report?.searchBudgetReached && ' (search stopped at its step budget)'}
               </p>
             </CardContent>
           </Card>
@@ -491,8 +573,8 @@ export function WordSearchGrid({ className }: WordSearchGridProps) {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {placedWords.map((word, index) => (
-                <div key={index} className="flex items-start space-x-2">
+              {placedWords.map(word => (
+                <div key={word.id} className="flex items-start space-x-2">
                   <Badge variant="outline" className="text-xs">
                     {word.word}
                   </Badge>
@@ -0,0 +1,76 @@
+// Words that random filler letters must never spell out. The engine scans the
+// whole grid in every direction after filling and re-rolls filler letters
+// until none of these can be read, so a printed puzzle can't accidentally
+// contain something offensive.
+//
+// Lists are keyed by locale; use registerBlocklist to add a locale or extend
+// an existing one. Words users add in the builder are kept per locale in
+// localStorage, apart from the built-in lists.
+
+export type BlocklistLocale = string;
+
+const BLOCKLISTS: Record<BlocklistLocale, string[]> = {
+  en: [
+    'ASS', 'ARSE', 'BITCH', 'BOLLOCKS', 'BONER', 'BOOB', 'BUTT', 'CLIT', 'COCK', 'COON',
+    'CUM', 'CUNT', 'DICK', 'DIKE', 'DILDO', 'DYKE', 'FAG', 'FAGGOT', 'FANNY', 'FART',
+    'FECK', 'FUCK', 'FUK', 'GOOK', 'HOMO', 'JIZZ', 'KIKE', 'KKK', 'NAZI', 'NIGGA',
+    'NIGGER', 'ORGY', 'PAKI', 'PECKER', 'PENIS', 'PISS', 'PORN', 'PRICK', 'PUBE', 'PUSSY',
+    'RAPE', 'RETARD', 'SEX', 'SHAG', 'SHIT', 'SLAG', 'SLUT', 'SPIC', 'SPUNK', 'TIT',
+    'TITS', 'TOSSER', 'TURD', 'TWAT', 'VAGINA', 'WANK', 'WHORE', 'WOG'
+  ],
+  es: [
+    'CABRON', 'CACA', 'COJONES', 'CULO', 'JODER', 'MAMON', 'MARICON', 'MIERDA', 'PENE', 'PERRA',
+    'POLLA', 'PUTA', 'PUTO', 'VERGA', 'ZORRA'
+  ],
+  fr: [
+    'BITE', 'BORDEL', 'CHIER', 'CONNARD', 'CONNE', 'CUL', 'ENCULE', 'MERDE', 'NIQUE', 'PUTAIN',
+    'PUTE', 'SALOPE', 'TEPU'
+  ],
+  de: [
+    'ARSCH', 'FICK', 'FICKEN', 'FOTZE', 'HURE', 'KACKE', 'NUTTE', 'PIMMEL', 'SAU', 'SCHEISSE',
+    'SCHLAMPE', 'SCHWANZ', 'WICHSER'
+  ],
+};
+
+const EXTRA_WORDS_STORAGE_KEY = 'wordframe.extraBlockedWords';
+
+export const DEFAULT_BLOCKLIST_LOCALE: BlocklistLocale = 'en';
+
+export const BLOCKLIST_LOCALE_LABELS: Record<BlocklistLocale, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+};
+
+export function getBlocklistLocales(): BlocklistLocale[] {
+  return Object.keys(BLOCKLISTS);
+}
+
+// Add words to a locale's list, creating the locale if it doesn't exist yet
+export function registerBlocklist(locale: BlocklistLocale, words: string[]): void {
+  const existing = BLOCKLISTS[locale] ?? [];
+  BLOCKLISTS[locale] = [...new Set([...existing, ...words.map(word => word.trim().toUpperCase()).filter(Boolean)])];
+}
+
+// Blocked words for a locale plus any extras the user entered. Unknown locales
+// get just the extras; 'none' turns the built-in lists off.
+export function getBlocklist(locale: BlocklistLocale, extraWords: string[] = []): string[] {
+  const builtIn = BLOCKLISTS[locale] ?? [];
+  const extras = extraWords.map(word => word.trim().toUpperCase()).filter(Boolean);
+  return [...new Set([...builtIn, ...extras])];
+}
+
+// Words the user added on top of each locale's list in an earlier visit
+export function loadExtraBlockedWords(): Record<BlocklistLocale, string[]> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(EXTRA_WORDS_STORAGE_KEY) ?? '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveExtraBlockedWords(extraWords: Record<BlocklistLocale, string[]>): void {
+  localStorage.setItem(EXTRA_WORDS_STORAGE_KEY, JSON.stringify(extraWords));
+}
@@ -0,0 +1,94 @@
+import { DIRECTIONS, FORWARD_DIRECTIONS, type WordDirection, type WordSearchWord } from './word-search-engine';
+
+export type Difficulty = 'kids' | 'easy' | 'medium' | 'hard' | 'expert';
+
+// What the printed word list shows: the answers themselves or their hints
+export type WordListMode = 'words' | 'hints';
+
+export interface DifficultyPreset {
+  label: string;
+  description: string;
+  directions: WordDirection[];
+  minWordLength: number;
+  maxWordLength: number;
+  allowOverlap: boolean;
+  overlapWeight: number;
+  fillerBias: number;
+  wordListMode: WordListMode;
+}
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  kids: {
+    label: 'Kids',
+    description: 'Short words, left-to-right and top-to-bottom only, no overlaps',
+    directions: ['horizontal', 'vertical'],
+    minWordLength: 3,
+    maxWordLength: 6,
+    allowOverlap: false,
+    overlapWeight: 0,
+    fillerBias: 0,
+    wordListMode: 'words',
+  },
+  easy: {
+    label: 'Easy',
+    description: 'Forward words including one diagonal',
+    directions: ['horizontal', 'vertical', 'diagonal-down'],
+    minWordLength: 3,
+    maxWordLength: 8,
+    allowOverlap: true,
+    overlapWeight: 0.5,
+    fillerBias: 0,
+    wordListMode: 'words',
+  },
+  medium: {
+    label: 'Medium',
+    description: 'All forward directions, some look-alike filler letters',
+    directions: FORWARD_DIRECTIONS,
+    minWordLength: 4,
+    maxWordLength: 10,
+    allowOverlap: true,
+    overlapWeight: 1,
+    fillerBias: 0.2,
+    wordListMode: 'words',
+  },
+  hard: {
+    label: 'Hard',
+    description: 'All eight directions with filler drawn from the hidden words',
+    directions: DIRECTIONS,
+    minWordLength: 5,
+    maxWordLength: 12,
+    allowOverlap: true,
+    overlapWeight: 2,
+    fillerBias: 0.4,
+    wordListMode: 'words',
+  },
+  expert: {
+    label: 'Expert',
+    description: 'All eight directions, long words, and only hints in the word list',
+    directions: DIRECTIONS,
+    minWordLength: 6,
+    maxWordLength: 14,
+    allowOverlap: true,
+    overlapWeight: 3,
+    fillerBias: 0.6,
+    wordListMode: 'hints',
+  },
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'medium';
+
+// A hint can stand in for its word unless it's missing or gives the answer
+// away, in grid form or as written ("ice cream" for ICECREAM)
+export function hasUsableHint(word: Pick<WordSearchWord, 'word' | 'hint' | 'display'>): boolean {
+  const hint = word.hint.trim().toUpperCase();
+  const display = word.display?.trim().toUpperCase();
+  return hint !== '' && !hint.includes(word.word.toUpperCase()) && !(display && hint.includes(display));
+}
+
+// Text shown for a word in the on-screen and printed word lists. Words
+// without a usable hint fall back to their first letter and blanks.
+export function formatWordListEntry(word: WordSearchWord, mode: WordListMode): string {
+  if (mode === 'words') return word.display ?? word.word;
+  if (hasUsableHint(word)) return word.hint.trim();
+  return `${word.word[0]}${' _'.repeat(word.word.length - 1)}`;
+}
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+import { useGeminiStore } from './gemini';
+import { createRandomWordsProvider } from './word-providers';
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  useGeminiStore.getState().actions.setProvider('openai-compatible');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+it('reuses the provider between calls so a rejected response_format is remembered', async () => {
+  const structuredRequests: boolean[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string);
+    structuredRequests.push('response_format' in body);
+    if (body.response_format) return new Response('', { status: 400 });
+    const content = JSON.stringify({ words: [{ word: 'COMET', hint: 'Icy visitor with a tail' }] });
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+  }));
+
+  const { generateWords } = useGeminiStore.getState().actions;
+  await generateWords(1, 'space', { minLength: 3, maxLength: 8 });
+  await generateWords(1, 'space', { minLength: 3, maxLength: 8 });
+
+  expect(structuredRequests).toEqual([true, false, false]);
+});
+
+it('records a failed model call even when the dictionary fills in for it', async () => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 401, statusText: 'Unauthorized' })));
+
+  const words = await useGeminiStore.getState().actions.generateWords(3, 'ocean', { minLength: 3, maxLength: 8 });
+
+  expect(words).toHaveLength(3);
+  expect(useGeminiStore.getState().error).toBeNull();
+  expect(useGeminiStore.getState().modelError).toBe('Word server responded with 401 Unauthorized');
+  expect(useGeminiStore.getState().keyError).toBeNull();
+});
+
+it('gives random words for an empty theme when Gemini has no key', async () => {
+  useGeminiStore.getState().actions.setProvider('gemini');
+  const options = { seed: 'plain', minLength: 3, maxLength: 8 };
+
+  const words = await useGeminiStore.getState().actions.generateWords(5, '', options);
+
+  expect(words).toEqual(await createRandomWordsProvider().generateWords(5, undefined, options));
+});
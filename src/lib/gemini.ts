@@ -1,250 +1,231 @@
 import { create } from 'zustand'
 import { GoogleGenAI } from '@google/genai'
-import { generate } from 'random-words'
+import {
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  createDictionaryProvider,
+  createGeminiProvider,
+  createOpenAiCompatibleProvider,
+  createRandomWordsProvider,
+  type OpenAiCompatibleConfig,
+  type WordProvider,
+  type WordProviderId
+} from './word-providers'
 
 export interface WordWithHint {
-  word: string
+  word: string // Grid form: A-Z only
   hint: string
+  display?: string // As the user wrote it, when that differs ("Ice cream" for ICECREAM)
 }
 
+export interface WordGenerationOptions {
+  seed?: string // Makes the random-words selection reproducible
+  minLength?: number
+  maxLength?: number
+}
+
+// Where a user's own key is kept; it never leaves the browser except to call Google
+const API_KEY_STORAGE_KEY = 'wordframe.geminiApiKey'
+
 interface GeminiStore {
   // State
   isInitialized: boolean
   isLoading: boolean
   error: string | null
+  modelError: string | null // Last failed model call, kept even when a retry or the dictionary made up for it
+  isTestingKey: boolean
+  keyError: string | null // Only from testing or saving a key
   genAI: GoogleGenAI | null
+  hasSavedKey: boolean
+  providerId: WordProviderId
+  openAiCompatibleConfig: OpenAiCompatibleConfig
   
   // Actions
   actions: {
     initializeGemini: (apiKey: string) => Promise<void>
-    generateWords: (count: number, theme?: string) => Promise<WordWithHint[]>
-    generateWordsOfLength: (count: number, length: number) => Promise<WordWithHint[]>
+    loadSavedApiKey: () => Promise<void>
+    testApiKey: (apiKey: string) => Promise<boolean>
+    saveApiKey: (apiKey: string) => Promise<boolean>
+    forgetApiKey: () => void
+    setProvider: (providerId: WordProviderId) => void
+    setOpenAiCompatibleConfig: (config: Partial<OpenAiCompatibleConfig>) => void
+    generateWords: (count: number, theme?: string, options?: WordGenerationOptions) => Promise<WordWithHint[]>
+    generateWordsOfLength: (count: number, length: number, seed?: string, theme?: string) => Promise<WordWithHint[]>
     generateWordsFromBase: (baseWords: string[], count: number) => Promise<WordWithHint[]>
     generateHintsForWords: (words: string[]) => Promise<WordWithHint[]>
     clearError: () => void
   }
 }
 
-export const useGeminiStore = create<GeminiStore>((set, get) => ({
-  // Initial state
-  isInitialized: false,
-  isLoading: false,
-  error: null,
-  genAI: null,
+export const useGeminiStore = create<GeminiStore>((set, get) => {
+  const recordModelError = (error: unknown) => {
+    set({ modelError: error instanceof Error ? error.message : String(error) })
+  }
 
-  // Initialize Gemini with API key
-  actions: {
-    initializeGemini: async (apiKey: string) => {
-    try {
-      set({ isLoading: true, error: null })
-      
-      const genAI = new GoogleGenAI({ apiKey })
-      
-      set({ 
-        genAI, 
-        isInitialized: true, 
-        isLoading: false 
-      })
-    } catch (error) {
-      set({ 
-        error: error instanceof Error ? error.message : 'Failed to initialize Gemini',
-        isLoading: false 
-      })
+  // The provider for a selection. Gemini without a key falls back to the
+  // offline dictionary so themed words still work; it gives random words when
+  // there's no theme, as Gemini would.
+  const createProvider = (
+    providerId: WordProviderId,
+    genAI: GoogleGenAI | null,
+    openAiCompatibleConfig: OpenAiCompatibleConfig
+  ): WordProvider => {
+    switch (providerId) {
+      case 'random-words':
+        return createRandomWordsProvider()
+      case 'dictionary':
+        return createDictionaryProvider()
+      case 'openai-compatible':
+        return createOpenAiCompatibleProvider(openAiCompatibleConfig, recordModelError)
+      case 'gemini':
+        if (genAI) return createGeminiProvider(genAI, recordModelError)
+        console.warn('⚠️ Gemini not initialized, using the offline dictionary')
+        return createDictionaryProvider()
     }
-  },
+  }
 
-  // Generate n words with hints for word search using random-words
-  generateWords: async (count: number, _?: string) => {
-    
-    try {
-      set({ isLoading: true, error: null })
-      
-      // Generate random words with appropriate length for word search
-      const randomWords = generate({ 
-        exactly: count, 
-        minLength: 3, 
-        maxLength: 12 
-      }) as string[]
-      
-      // Get hints for the generated words
-      // const wordsWithHints = await actions.generateHintsForWords(randomWords)
-      
-      set({ isLoading: false })
-      return randomWords.map(word => ({ word: word.toUpperCase(), hint: '' }))
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to generate words'
-      set({ error: errorMessage, isLoading: false })
-      throw new Error(errorMessage)
+  // Kept while the selection is unchanged, so what a provider learns about its
+  // server (such as a rejected response_format) lasts beyond one call
+  let cached: {
+    providerId: WordProviderId
+    genAI: GoogleGenAI | null
+    config: OpenAiCompatibleConfig
+    provider: WordProvider
+  } | null = null
+
+  const getProvider = (): WordProvider => {
+    const { providerId, genAI, openAiCompatibleConfig } = get()
+    if (cached?.providerId !== providerId || cached.genAI !== genAI || cached.config !== openAiCompatibleConfig) {
+      cached = { providerId, genAI, config: openAiCompatibleConfig, provider: createProvider(providerId, genAI, openAiCompatibleConfig) }
     }
-  },
+    return cached.provider
+  }
 
-  // Generate n words of specific length using random-words
-  generateWordsOfLength: async (count: number, length: number) => {
+  const withLoading = async <T>(run: (provider: WordProvider) => Promise<T>, fallbackMessage: string): Promise<T> => {
     try {
       set({ isLoading: true, error: null })
-      
-      // Generate words of specific length, with some flexibility for better results
-      const minLength = Math.max(3, length - 1); // At least 3, but allow 1 shorter
-      const maxLength = length + 1; // Allow 1 longer
-      
-      // Generate more words than needed to filter to exact length
-      const randomWords = generate({ 
-        exactly: count * 3, // Generate 3x to have good selection
-        minLength, 
-        maxLength 
-      }) as string[]
-      
-      // Filter to exact length and take only what we need
-      const exactLengthWords = randomWords
-        .filter(word => word.length === length)
-        .slice(0, count);
-      
-      // If we don't have enough exact length words, pad with close lengths
-      if (exactLengthWords.length < count) {
-        const closeWords = randomWords
-          .filter(word => word.length >= minLength && word.length <= maxLength)
-          .filter(word => !exactLengthWords.includes(word))
-          .slice(0, count - exactLengthWords.length);
-        
-        exactLengthWords.push(...closeWords);
-      }
-      
+      const result = await run(getProvider())
       set({ isLoading: false })
-      return exactLengthWords.map(word => ({ 
-        word: word.toUpperCase(), 
-        hint: `${word.length}-letter word` 
-      }))
+      return result
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to generate words of specific length'
+      const errorMessage = error instanceof Error ? error.message : fallbackMessage
       set({ error: errorMessage, isLoading: false })
       throw new Error(errorMessage)
     }
-  },
-
-  // Generate hints for provided words using Gemini
-  generateHintsForWords: async (words: string[]) => {
-    const { genAI, isInitialized } = get()
-    
-    if (!isInitialized || !genAI) {
-      throw new Error('Gemini not initialized. Call initializeGemini first.')
-    }
-
-    try {
-      const wordsText = words.join(', ')
-      const prompt = `For each of the following words, provide a helpful hint that gives clues about the word without being too obvious. The hints should be appropriate for all ages and suitable for a word search puzzle.
-
-Words: ${wordsText}
-
-Format your response as a JSON array with objects containing "word" and "hint" fields:
-[
-  {"word": "EXAMPLE", "hint": "A sample or illustration"},
-  {"word": "ANOTHER", "hint": "One more or different"}
-]
-
-Make sure each hint:
-- Gives useful clues without being too direct
-- Is appropriate for all ages
-- Helps players identify the word in a word search context`
-
-      const response = await genAI.models.generateContent({
-        model: "gemma-3-12b-it",
-        contents: prompt,
-      })
-      
-      const text = response.text
-      if (!text) {
-        throw new Error('No text response from Gemini')
-      }
-      
-      // Parse the JSON response
-      const cleanedText = text.replace(/```json\n?|\n?```/g, '').trim()
-      const wordsWithHints: WordWithHint[] = JSON.parse(cleanedText)
-      
-      // Validate the response
-      if (!Array.isArray(wordsWithHints) || wordsWithHints.length !== words.length) {
-        throw new Error('Invalid response format from Gemini')
-      }
-      
-      // Ensure all words are uppercase for word search
-      const processedWords = wordsWithHints.map(item => ({
-        word: item.word.toUpperCase(),
-        hint: item.hint
-      }))
-      
-      return processedWords
-      
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to generate hints'
-      throw new Error(errorMessage)
-    }
-  },
-
-  // Generate words with hints based on provided base words (still uses Gemini for thematic generation)
-  generateWordsFromBase: async (baseWords: string[], count: number) => {
-    const { genAI, isInitialized } = get()
-    
-    if (!isInitialized || !genAI) {
-      throw new Error('Gemini not initialized. Call initializeGemini first.')
-    }
-
-    try {
-      set({ isLoading: true, error: null })
-      
-      const baseWordsText = baseWords.join(', ')
-      const prompt = `Based on these seed words: ${baseWordsText}
-
-Generate exactly ${count} words that are thematically related to or inspired by the seed words. Each word should be between 4-12 letters long and suitable for a word search puzzle.
-
-For each word, provide a helpful hint that gives clues about the word without being too obvious.
-
-Format your response as a JSON array with objects containing "word" and "hint" fields:
-[
-  {"word": "EXAMPLE", "hint": "A sample or illustration"},
-  {"word": "ANOTHER", "hint": "One more or different"}
-]
-
-Make sure the generated words:
-- Are related to the theme/topic of the seed words
-- Vary in length and difficulty
-- Are appropriate for all ages
-- Include a mix of nouns, verbs, adjectives, and proper nouns`
+  }
 
-      const response = await genAI.models.generateContent({
-        model: "gemma-3-12b-it",
-        contents: prompt,
-      })
-      
-      const text = response.text
-      if (!text) {
-        throw new Error('No text response from Gemini')
+  return {
+    // Initial state
+    isInitialized: false,
+    isLoading: false,
+    error: null,
+    modelError: null,
+    isTestingKey: false,
+    keyError: null,
+    genAI: null,
+    hasSavedKey: false,
+    providerId: 'gemini',
+    openAiCompatibleConfig: DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+
+    // Initialize Gemini with API key
+    actions: {
+      initializeGemini: async (apiKey: string) => {
+      try {
+        set({ isLoading: true, error: null })
+      
+        const genAI = new GoogleGenAI({ apiKey })
+      
+        set({ 
+          genAI, 
+          isInitialized: true, 
+          isLoading: false 
+        })
+      } catch (error) {
+        set({ 
+          error: error instanceof Error ? error.message : 'Failed to initialize Gemini',
+          isLoading: false 
+        })
       }
-      
-      // Parse the JSON response
-      const cleanedText = text.replace(/```json\n?|\n?```/g, '').trim()
-      const wordsWithHints: WordWithHint[] = JSON.parse(cleanedText)
-      
-      // Validate the response
-      if (!Array.isArray(wordsWithHints) || wordsWithHints.length !== count) {
-        throw new Error('Invalid response format from Gemini')
+    },
+
+    // Pick up a key saved in an earlier visit. It was tested when saved, so
+    // don't spend a request on it again here; if it has been revoked since,
+    // the first failed call shows up in modelError.
+    loadSavedApiKey: async () => {
+      const apiKey = localStorage.getItem(API_KEY_STORAGE_KEY)
+      if (!apiKey) return
+      console.log('🔑 Using saved Gemini API key')
+      await get().actions.initializeGemini(apiKey)
+      set({ hasSavedKey: true })
+    },
+
+    // Make one tiny request to check the key works before anything relies on
+    // it. Has its own loading and error state so word generation running at
+    // the same time doesn't show up as a key problem.
+    testApiKey: async (apiKey: string) => {
+      try {
+        set({ isTestingKey: true, keyError: null })
+        const genAI = new GoogleGenAI({ apiKey: apiKey.trim() })
+        await genAI.models.generateContent({ model: DEFAULT_GEMINI_MODEL, contents: 'Reply with OK' })
+        set({ isTestingKey: false })
+        return true
+      } catch (error) {
+        set({
+          keyError: `API key test failed: ${error instanceof Error ? error.message : 'unknown error'}`,
+          isTestingKey: false
+        })
+        return false
       }
-      
-      // Ensure all words are uppercase for word search
-      const processedWords = wordsWithHints.map(item => ({
-        word: item.word.toUpperCase(),
-        hint: item.hint
-      }))
-      
-      set({ isLoading: false })
-      return processedWords
-      
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to generate words from base words'
-      set({ error: errorMessage, isLoading: false })
-      throw new Error(errorMessage)
-    }
-  },
-
-  // Clear any errors
-  clearError: () => set({ error: null })
-},
-}))
+    },
+
+    saveApiKey: async (apiKey: string) => {
+      const { testApiKey, initializeGemini } = get().actions
+      if (!await testApiKey(apiKey)) return false
+
+      localStorage.setItem(API_KEY_STORAGE_KEY, apiKey.trim())
+      await initializeGemini(apiKey.trim())
+      set({ hasSavedKey: true, modelError: null })
+      console.log('🔑 Saved Gemini API key')
+      return true
+    },
+
+    forgetApiKey: () => {
+      localStorage.removeItem(API_KEY_STORAGE_KEY)
+      set({ genAI: null, isInitialized: false, hasSavedKey: false, error: null, modelError: null, keyError: null })
+      console.log('🔑 Forgot Gemini API key')
+    },
+
+    setProvider: (providerId: WordProviderId) => {
+      console.log('🔌 Using word provider:', providerId)
+      set({ providerId, modelError: null })
+    },
+
+    setOpenAiCompatibleConfig: (config: Partial<OpenAiCompatibleConfig>) => {
+      set(state => ({ openAiCompatibleConfig: { ...state.openAiCompatibleConfig, ...config }, modelError: null }))
+    },
+
+    // Generate n words with hints for word search, following the theme where
+    // the provider can
+    generateWords: (count: number, theme?: string, options: WordGenerationOptions = {}) =>
+      withLoading(provider => provider.generateWords(count, theme, options), 'Failed to generate words'),
+
+    // Generate n words of one length, for filling a gap of that size
+    generateWordsOfLength: (count: number, length: number, seed?: string, theme?: string) =>
+      withLoading(
+        provider => provider.generateWordsOfLength(count, length, seed, theme),
+        'Failed to generate words of specific length'
+      ),
+
+    // Generate hints for provided words
+    generateHintsForWords: (words: string[]) =>
+      withLoading(provider => provider.generateHintsForWords(words), 'Failed to generate hints'),
+
+    // Generate words with hints related to the provided base words
+    generateWordsFromBase: (baseWords: string[], count: number) =>
+      withLoading(provider => provider.generateWordsFromBase(baseWords, count), 'Failed to generate words from base words'),
+
+    // Clear any errors
+    clearError: () => set({ error: null, modelError: null })
+    },
+  }
+})
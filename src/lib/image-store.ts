@@ -1,5 +1,16 @@
 import { create } from 'zustand';
 import { initializeModel, processImageFromDataURL, simpleBackgroundRemoval } from './process';
+import {
+  applyAdaptiveThreshold,
+  applyGlobalThreshold,
+  computeHistogram,
+  otsuThreshold,
+  outlineMask,
+  toGrayscale,
+  type AdaptiveMethod,
+  type MaskStyle,
+  type ThresholdMode
+} from './threshold';
 
 interface CropArea {
   x: number;
@@ -20,12 +31,23 @@ interface ImageProcessingState {
   
   // Cropped image
   croppedImage: string | null;
+  croppedColorImage: string | null; // Same crop of the original photo when the background was removed
   cropArea: CropArea | null;
   
   // Threshold image (final processed)
   thresholdImage: string | null;
   previewThresholdImage: string | null; // Preview of threshold processing, not yet confirmed
+  previewOutlineImage: string | null; // The band letters will follow, in outline style
+  outlineImage: string | null; // Confirmed copy of the above
   thresholdValue: number;
+  thresholdMode: ThresholdMode;
+  adaptiveMethod: AdaptiveMethod;
+  adaptiveWindowSize: number; // Odd, in image pixels
+  adaptiveOffset: number;
+  histogram: number[] | null; // Grayscale counts of the cropped image
+  appliedThreshold: number | null; // Cutoff actually used; null in adaptive mode
+  maskStyle: MaskStyle;
+  strokeWidth: number; // Width of the outline band, in letters
   
   // UI state
   isProcessing: boolean;
@@ -40,8 +62,14 @@ interface ImageProcessingActions {
   skipBackgroundRemoval: () => void;
   setBackgroundRemovedImage: (imageUrl: string) => void;
   setCropArea: (area: CropArea) => void;
-  setCroppedImage: (imageUrl: string) => void;
+  setCroppedImage: (imageUrl: string, colorImageUrl?: string | null) => void;
   setThresholdValue: (value: number) => void;
+  setThresholdMode: (mode: ThresholdMode) => void;
+  setAdaptiveMethod: (method: AdaptiveMethod) => void;
+  setAdaptiveWindowSize: (size: number) => void;
+  setAdaptiveOffset: (offset: number) => void;
+  setMaskStyle: (style: MaskStyle) => void;
+  setStrokeWidth: (width: number) => void;
   setThresholdImage: (imageUrl: string) => void;
   setPreviewThresholdImage: (imageUrl: string) => void;
   confirmThresholdImage: () => void;
@@ -49,7 +77,7 @@ interface ImageProcessingActions {
   setProcessing: (processing: boolean) => void;
   setError: (error: string | null) => void;
   reset: () => void;
-  processThreshold: () => Promise<void>;
+  processThreshold: (gridWidth?: number) => Promise<void>;
 }
 
 interface ImageProcessingStore extends ImageProcessingState {
@@ -63,10 +91,21 @@ const initialState: ImageProcessingState = {
   isBackgroundRemovalEnabled: false,
   isInitializingBgRemoval: false,
   croppedImage: null,
+  croppedColorImage: null,
   cropArea: null,
   thresholdImage: null,
   previewThresholdImage: null,
+  previewOutlineImage: null,
+  outlineImage: null,
   thresholdValue: 128,
+  thresholdMode: 'global',
+  adaptiveMethod: 'mean',
+  adaptiveWindowSize: 31,
+  adaptiveOffset: 10,
+  histogram: null,
+  appliedThreshold: null,
+  maskStyle: 'filled',
+  strokeWidth: 2,
   isProcessing: false,
   step: 'upload',
   error: null
@@ -177,9 +216,10 @@ export const useImageStore = create<ImageProcessingStore>((set, get) => ({
       set({ cropArea: area });
     },
     
-    setCroppedImage: (imageUrl: string) => {
+    setCroppedImage: (imageUrl: string, colorImageUrl: string | null = null) => {
       set({
         croppedImage: imageUrl,
+        croppedColorImage: colorImageUrl,
         step: 'threshold'
       });
     },
@@ -189,6 +229,33 @@ export const useImageStore = create<ImageProcessingStore>((set, get) => ({
       set({ thresholdValue: value });
     },
     
+    setThresholdMode: (mode: ThresholdMode) => {
+      console.log('📊 Setting threshold mode:', mode);
+      set({ thresholdMode: mode });
+    },
+    
+    setAdaptiveMethod: (method: AdaptiveMethod) => {
+      set({ adaptiveMethod: method });
+    },
+    
+    setAdaptiveWindowSize: (size: number) => {
+      // Windows are centred on the pixel, so keep them odd
+      set({ adaptiveWindowSize: Math.max(3, Math.round(size) | 1) });
+    },
+    
+    setAdaptiveOffset: (offset: number) => {
+      set({ adaptiveOffset: offset });
+    },
+    
+    setMaskStyle: (style: MaskStyle) => {
+      console.log('✏️ Setting mask style:', style);
+      set({ maskStyle: style });
+    },
+    
+    setStrokeWidth: (width: number) => {
+      set({ strokeWidth: Math.max(1, Math.round(width)) });
+    },
+    
     setThresholdImage: (imageUrl: string) => {
       console.log('🎯 Setting threshold image:', imageUrl.substring(0, 50) + '...');
       set({ thresholdImage: imageUrl });
@@ -200,11 +267,12 @@ export const useImageStore = create<ImageProcessingStore>((set, get) => ({
     },
     
     confirmThresholdImage: () => {
-      const { previewThresholdImage } = get();
+      const { previewThresholdImage, previewOutlineImage } = get();
       console.log('✅ Confirming threshold image:', previewThresholdImage?.substring(0, 50) + '...');
       if (previewThresholdImage) {
         set({ 
           thresholdImage: previewThresholdImage,
+          outlineImage: previewOutlineImage,
           step: 'complete'
         });
       }
@@ -227,11 +295,22 @@ export const useImageStore = create<ImageProcessingStore>((set, get) => ({
       set(initialState);
     },
     
-    processThreshold: async () => {
-      const { croppedImage, thresholdValue } = get();
+    processThreshold: async (gridWidth?: number) => {
+      const {
+        croppedImage,
+        thresholdValue,
+        thresholdMode,
+        adaptiveMethod,
+        adaptiveWindowSize,
+        adaptiveOffset,
+        maskStyle,
+        strokeWidth
+      } = get();
       console.log('🔧 processThreshold called with:', { 
         hasCroppedImage: !!croppedImage, 
-        thresholdValue 
+        thresholdValue,
+        thresholdMode,
+        maskStyle
       });
       
       if (!croppedImage) {
@@ -267,35 +346,52 @@ export const useImageStore = create<ImageProcessingStore>((set, get) => ({
         const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
         const data = imageData.data;
         
-        // Apply threshold
-        for (let i = 0; i < data.length; i += 4) {
-          const r = data[i];
-          const g = data[i + 1];
-          const b = data[i + 2];
-          
-          // Convert to grayscale
-          const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-          
-          // Apply threshold
-          const value = gray > thresholdValue ? 255 : 0;
-          
-          data[i] = value;     // R
-          data[i + 1] = value; // G
-          data[i + 2] = value; // B
-          // Alpha channel stays the same
+        const gray = toGrayscale(data);
+        const histogram = computeHistogram(gray);
+        
+        // Pick the cutoff (or cutoffs, in adaptive mode) and apply it
+        let appliedThreshold: number | null = null;
+        let binary: Uint8Array;
+        if (thresholdMode === 'adaptive') {
+          binary = applyAdaptiveThreshold(gray, canvas.width, canvas.height, {
+            method: adaptiveMethod,
+            windowSize: adaptiveWindowSize,
+            offset: adaptiveOffset
+          });
+        } else {
+          appliedThreshold = thresholdMode === 'otsu' ? otsuThreshold(histogram) : thresholdValue;
+          binary = applyGlobalThreshold(gray, appliedThreshold);
         }
+        console.log('📊 Threshold applied:', { thresholdMode, appliedThreshold });
         
-        // Put processed data back
-        ctx.putImageData(imageData, 0, 0);
+        const toDataURL = (mask: Uint8Array) => {
+          for (let i = 0; i < mask.length; i++) {
+            data[i * 4] = mask[i];     // R
+            data[i * 4 + 1] = mask[i]; // G
+            data[i * 4 + 2] = mask[i]; // B
+            // Alpha channel stays the same
+          }
+          ctx.putImageData(imageData, 0, 0);
+          return canvas.toDataURL('image/png');
+        };
         
         // Convert to data URL
-        const processedImageUrl = canvas.toDataURL('image/png');
+        const processedImageUrl = toDataURL(binary);
+        
+        // The filled shape stays the threshold image: the puzzle traces its
+        // outline at grid size so the stroke is a whole number of letters. This
+        // preview scales the stroke to the grid the image will be laid over.
+        let outlineImageUrl: string | null = null;
+        if (maskStyle === 'outline') {
+          const cellSize = gridWidth ? canvas.width / gridWidth : Math.max(1, canvas.width / 50);
+          outlineImageUrl = toDataURL(outlineMask(binary, canvas.width, canvas.height, Math.round(strokeWidth * cellSize)));
+        }
         
         console.log('✅ Threshold processing completed successfully');
         
         // Use the action to ensure logging
         const actions = get().actions;
-        set({ isProcessing: false });
+        set({ isProcessing: false, histogram, appliedThreshold, previewOutlineImage: outlineImageUrl });
         actions.setPreviewThresholdImage(processedImageUrl);
       } catch (error) {
         console.error('❌ Error processing threshold:', error);
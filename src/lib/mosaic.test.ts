@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { reducePalette, type Rgb } from './mosaic';
+
+describe('reducePalette', () => {
+  it('finds one colour per cluster', () => {
+    const colors: Rgb[] = [[250, 0, 0], [255, 5, 0], [0, 0, 250], [0, 5, 255]];
+
+    expect(reducePalette(colors, 2).sort((a, b) => a[0] - b[0])).toEqual([[0, 3, 253], [253, 3, 0]]);
+  });
+
+  it('handles as many colours as an A3 grid at 1 mm has cells', () => {
+    const colors = Array.from({ length: 200_000 }, (_, i): Rgb => [i % 256, (i * 7) % 256, (i * 13) % 256]);
+
+    expect(reducePalette(colors, 8)).toHaveLength(8);
+  });
+});
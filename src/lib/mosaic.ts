@@ -0,0 +1,118 @@
+// Colour mosaic: tinting each letter, or its whole cell, with the average
+// colour of the photo under it so the printed puzzle reproduces the picture.
+// A reduced palette keeps the print to a few inks.
+
+import type { GridCell } from './word-search-engine';
+
+export type MosaicMode = 'off' | 'letters' | 'cells';
+
+export type Rgb = [number, number, number];
+
+export const MOSAIC_MODE_LABELS: Record<MosaicMode, string> = {
+  off: 'Off',
+  letters: 'Coloured letters',
+  cells: 'Coloured squares',
+};
+
+// 0 keeps every cell's own colour
+export const PALETTE_SIZES = [0, 16, 8, 4];
+
+export interface MosaicStyle {
+  color?: string;
+  backgroundColor?: string;
+}
+
+export function toCssColor([r, g, b]: Rgb): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+function average(colors: Rgb[]): Rgb {
+  const sum = colors.reduce((total, color) => [total[0] + color[0], total[1] + color[1], total[2] + color[2]], [0, 0, 0]);
+  return sum.map(channel => Math.round(channel / colors.length)) as Rgb;
+}
+
+// Rounds of nearest-colour regrouping after the median cut
+const REFINE_PASSES = 5;
+
+// Median cut: keep splitting the group of colours with the widest spread in
+// one channel at its median, then use each group's average. A median can land
+// inside a cluster of similar colours, so a few k-means passes move each
+// palette entry onto the colours nearest to it.
+export function reducePalette(colors: Rgb[], size: number): Rgb[] {
+  if (colors.length === 0 || size <= 0) return [];
+
+  const groups: Rgb[][] = [colors];
+  while (groups.length < size) {
+    let widest = -1;
+    let widestChannel = 0;
+    let widestRange = 0;
+    groups.forEach((group, i) => {
+      for (let channel = 0; channel < 3; channel++) {
+        // A loop rather than Math.max(...values): a large grid has more
+        // colours than a call can take as arguments
+        let min = 255;
+        let max = 0;
+        for (const color of group) {
+          min = Math.min(min, color[channel]);
+          max = Math.max(max, color[channel]);
+        }
+        const range = max - min;
+        if (range > widestRange) {
+          widest = i;
+          widestChannel = channel;
+          widestRange = range;
+        }
+      }
+    });
+    // Every group is down to a single colour
+    if (widest === -1) break;
+
+    const sorted = [...groups[widest]].sort((a, b) => a[widestChannel] - b[widestChannel]);
+    const middle = Math.floor(sorted.length / 2);
+    groups.splice(widest, 1, sorted.slice(0, middle), sorted.slice(middle));
+  }
+
+  let palette = groups.map(average);
+  for (let pass = 0; pass < REFINE_PASSES; pass++) {
+    const members = palette.map((): Rgb[] => []);
+    for (const color of colors) {
+      members[palette.indexOf(nearestColor(color, palette))].push(color);
+    }
+    palette = members.map((group, i) => (group.length > 0 ? average(group) : palette[i]));
+  }
+  return palette;
+}
+
+export function nearestColor(color: Rgb, palette: Rgb[]): Rgb {
+  let nearest = palette[0];
+  let nearestDistance = Infinity;
+  for (const candidate of palette) {
+    const distance = (color[0] - candidate[0]) ** 2 + (color[1] - candidate[1]) ** 2 + (color[2] - candidate[2]) ** 2;
+    if (distance < nearestDistance) {
+      nearest = candidate;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+// Colour to draw each cell in, snapped to a palette of `paletteSize` colours
+// picked from the grid itself when one is asked for
+export function mosaicColors(grid: GridCell[][], paletteSize: number): (Rgb | null)[][] {
+  const palette = paletteSize > 0
+    ? reducePalette(grid.flatMap(row => row.flatMap(cell => (cell.color ? [cell.color] : []))), paletteSize)
+    : [];
+  return grid.map(row => row.map(cell => {
+    if (!cell.color) return null;
+    return palette.length > 0 ? nearestColor(cell.color, palette) : cell.color;
+  }));
+}
+
+// Letters on coloured squares switch between black and white to stay legible
+export function mosaicStyle(color: Rgb | null | undefined, mode: MosaicMode): MosaicStyle {
+  if (!color || mode === 'off') return {};
+  if (mode === 'letters') return { color: toCssColor(color) };
+
+  const luma = 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2];
+  return { backgroundColor: toCssColor(color), color: luma > 140 ? '#000' : '#fff' };
+}
@@ -0,0 +1,295 @@
+import {
+  DIRECTION_ARROWS,
+  MASK_REGIONS,
+  MASK_REGION_LABELS,
+  getWordCells,
+  type GridCell,
+  type MaskRegion,
+  type WordSearchWord
+} from './word-search-engine';
+import { formatWordListEntry, type WordListMode } from './difficulty';
+import { letterTone, type ToneMode } from './tone';
+import { mosaicColors, mosaicStyle, type MosaicMode, type Rgb } from './mosaic';
+
+interface PrintOptions {
+  grid: GridCell[][];
+  words: WordSearchWord[];
+  paperWidth: number;
+  paperHeight: number;
+  seed?: number;
+  wordListMode?: WordListMode;
+  toneMode?: ToneMode;
+  mosaicMode?: MosaicMode;
+  paletteSize?: number;
+  includeAnswerKey?: boolean;
+}
+
+interface GridStyle {
+  answerCells?: Set<string>;
+  toneMode?: ToneMode;
+  mosaicMode?: MosaicMode;
+  cellColors?: (Rgb | null)[][] | null;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Mosaic colour wins over the tone's shade; the tone's weight still applies
+function cellStyle(cell: GridCell, mosaicColor: Rgb | null | undefined, toneMode: ToneMode, mosaicMode: MosaicMode): string {
+  const { color, fontWeight, backgroundColor } = { ...letterTone(cell.luminance, toneMode), ...mosaicStyle(mosaicColor, mosaicMode) };
+  const declarations = [
+    color && `color: ${color}`,
+    backgroundColor && `background: ${backgroundColor}`,
+    fontWeight && `font-weight: ${fontWeight}`
+  ].filter(Boolean);
+  return declarations.length > 0 ? ` style="${declarations.join('; ')}"` : '';
+}
+
+// The answer key is drawn without tone or colour so the highlighted words stand out
+function renderGrid(grid: GridCell[][], { answerCells, toneMode = 'off', mosaicMode = 'off', cellColors }: GridStyle = {}): string {
+  return `
+    <div class="grid">
+      ${grid.map((row, rowIndex) => `
+        <div class="grid-row">
+          ${row.map((cell, colIndex) => `
+            <div class="grid-cell${cell.region === 'background' ? ' region-background' : ''}${answerCells?.has(`${rowIndex},${colIndex}`) ? ' answer-cell' : ''}"${cellStyle(cell, cellColors?.[rowIndex][colIndex], toneMode, mosaicMode)}>${cell.letter || ''}</div>
+          `).join('')}
+        </div>
+      `).join('')}
+    </div>
+  `;
+}
+
+// One list per region in dual-region puzzles, otherwise a single untitled one
+function groupByRegion(grid: GridCell[][], words: WordSearchWord[]): { region: MaskRegion | null; words: WordSearchWord[] }[] {
+  const isDualRegion = grid.some(row => row.some(cell => cell.region));
+  if (!isDualRegion) return [{ region: null, words }];
+  return MASK_REGIONS
+    .map(region => ({ region, words: words.filter(word => (word.region ?? 'shape') === region) }))
+    .filter(group => group.words.length > 0);
+}
+
+function wordListTitle(wordListMode: WordListMode, region: MaskRegion | null): string {
+  const title = wordListMode === 'hints' ? 'Work out the word for each clue, then find it' : 'Find these words';
+  return region ? `${title} (${MASK_REGION_LABELS[region].toLowerCase()}, ${region === 'shape' ? 'white' : 'shaded'} squares):` : `${title}:`;
+}
+
+// Build a standalone HTML document for the puzzle, optionally followed by an
+// answer key page with every placed word highlighted
+export function buildPrintDocument({
+  grid,
+  words,
+  paperWidth,
+  paperHeight,
+  seed,
+  wordListMode = 'words',
+  toneMode = 'off',
+  mosaicMode = 'off',
+  paletteSize = 0,
+  includeAnswerKey = false
+}: PrintOptions): string {
+  const placedWords = words.filter(word => word.placed);
+  const cellColors = mosaicMode === 'off' ? null : mosaicColors(grid, paletteSize);
+  const wordGroups = groupByRegion(grid, placedWords);
+
+  // Calculate print dimensions
+  const gridCols = grid[0]?.length || 0;
+  const gridRows = grid.length;
+
+  // Calculate optimal cell size for print based on paper size and character density
+  const availableWidth = paperWidth * 0.8; // Use 80% of paper width for margins
+  const availableHeight = paperHeight * 0.6; // Use 60% of paper height for grid (rest for word list)
+
+  const cellWidthMm = availableWidth / gridCols;
+  const cellHeightMm = availableHeight / gridRows;
+  const cellSizeMm = Math.min(cellWidthMm, cellHeightMm, 6); // Max 6mm per cell
+
+  const answerCells = new Set(
+    placedWords.flatMap(word => getWordCells(word).map(({ row, col }) => `${row},${col}`))
+  );
+
+  return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Word Search Puzzle</title>
+          <style>
+            @page {
+              size: ${paperWidth}mm ${paperHeight}mm;
+              margin: 10mm;
+            }
+
+            @media print {
+              body { margin: 0; padding: 0; }
+              .no-print { display: none !important; }
+            }
+
+            body {
+              font-family: 'Courier New', monospace;
+              font-size: 12px;
+              line-height: 1.2;
+              color: #000;
+              background: #fff;
+              -webkit-print-color-adjust: exact;
+              print-color-adjust: exact;
+            }
+
+            .puzzle-container {
+              width: 100%;
+              max-width: ${paperWidth - 20}mm;
+              margin: 0 auto;
+            }
+
+            .answer-key {
+              page-break-before: always;
+              break-before: page;
+            }
+
+            .puzzle-title {
+              text-align: center;
+              font-size: 18px;
+              font-weight: bold;
+              margin-bottom: 10mm;
+              font-family: Arial, sans-serif;
+            }
+
+            .puzzle-seed {
+              text-align: center;
+              font-size: 9px;
+              color: #666;
+              margin-top: -8mm;
+              margin-bottom: 6mm;
+              font-family: Arial, sans-serif;
+            }
+
+            .grid-container {
+              display: flex;
+              justify-content: center;
+              margin-bottom: 8mm;
+            }
+
+            .grid {
+              border: 2px solid #000;
+              background: #fff;
+            }
+
+            .grid-row {
+              display: flex;
+            }
+
+            .grid-cell {
+              width: ${cellSizeMm}mm;
+              height: ${cellSizeMm}mm;
+              border: 1px solid #000;
+              display: flex;
+              align-items: center;
+              justify-content: center;
+              font-weight: bold;
+              font-size: ${Math.max(6, cellSizeMm * 0.6)}px;
+              background: #fff;
+            }
+
+            .answer-key .grid-cell {
+              color: #bbb;
+            }
+
+            .answer-key .grid-cell.answer-cell {
+              color: #000;
+              background: #ddd;
+            }
+
+            .grid-cell.region-background {
+              background: #e4e4e4;
+            }
+
+            .answer-key .grid-cell.region-background.answer-cell {
+              background: #b4b4b4;
+            }
+
+            .word-list {
+              margin-top: 5mm;
+            }
+
+            .word-list-title {
+              font-size: 14px;
+              font-weight: bold;
+              margin-bottom: 3mm;
+              font-family: Arial, sans-serif;
+            }
+
+            .words-grid {
+              display: grid;
+              grid-template-columns: repeat(auto-fit, minmax(80px, 1fr));
+              gap: 2mm;
+              font-size: 11px;
+            }
+
+            .word-item {
+              padding: 1mm;
+              border: 1px solid #ccc;
+              text-align: center;
+              background: #f8f8f8;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="puzzle-container">
+            <div class="puzzle-title">Word Search Puzzle</div>
+            ${seed !== undefined ? `<div class="puzzle-seed">Seed: ${seed}</div>` : ''}
+
+            <div class="grid-container">
+              ${renderGrid(grid, { toneMode, mosaicMode, cellColors })}
+            </div>
+
+            ${placedWords.length > 0 ? wordGroups.map(({ region, words: groupWords }) => `
+              <div class="word-list">
+                <div class="word-list-title">${wordListTitle(wordListMode, region)}</div>
+                <div class="words-grid">
+                  ${groupWords.map(word => `
+                    <div class="word-item">${escapeHtml(formatWordListEntry(word, wordListMode))}</div>
+                  `).join('')}
+                </div>
+              </div>
+            `).join('') : ''}
+          </div>
+
+          ${includeAnswerKey ? `
+            <div class="puzzle-container answer-key">
+              <div class="puzzle-title">Answer Key</div>
+
+              <div class="grid-container">
+                ${renderGrid(grid, { answerCells })}
+              </div>
+
+              ${wordGroups.map(({ region, words: groupWords }) => `
+                <div class="word-list">
+                  ${region ? `<div class="word-list-title">${MASK_REGION_LABELS[region]}</div>` : ''}
+                  <div class="words-grid">
+                    ${groupWords.map(word => `
+                      <div class="word-item">${wordListMode === 'hints' ? `${escapeHtml(formatWordListEntry(word, wordListMode))}: ` : ''}${escapeHtml(word.word)} ${DIRECTION_ARROWS[word.direction]} (${word.startRow + 1}, ${word.startCol + 1})</div>
+                    `).join('')}
+                  </div>
+                </div>
+              `).join('')}
+            </div>
+          ` : ''}
+        </body>
+      </html>
+    `;
+}
+
+export function openPrintWindow(html: string): void {
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.focus();
+
+    // Trigger print dialog after content loads
+    printWindow.onload = () => {
+      printWindow.print();
+      printWindow.close();
+    };
+  }
+}
@@ -0,0 +1,49 @@
+// Seedable pseudo-random number generator (mulberry32).
+//
+// Every random choice made while building a puzzle goes through one of these
+// so that the same seed, mask and word list always reproduce the same grid.
+
+export interface Random {
+  next: () => number; // Float in [0, 1)
+  int: (max: number) => number; // Integer in [0, max)
+  pick: <T>(items: readonly T[]) => T;
+  shuffle: <T>(items: readonly T[]) => T[];
+  deriveSeed: () => string; // Seed string for libraries that take their own
+}
+
+export const MAX_SEED = 0xffffffff;
+
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (max: number) => Math.floor(next() * max);
+
+  return {
+    next,
+    int,
+    pick: items => items[int(items.length)],
+    shuffle: items => {
+      // Fisher-Yates on a copy
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+    deriveSeed: () => int(MAX_SEED).toString(36)
+  };
+}
+
+// Fresh seed for a new puzzle; the only place Math.random is allowed
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
@@ -0,0 +1,409 @@
+// Small offline dictionary of themed words with hints, used when a theme is
+// given but no language model is configured (or it fails).
+//
+// A theme text like "ocean animals" is matched against each entry's keywords;
+// entries are ordered from specific to general so "ocean animals" lands on the
+// ocean list rather than farm animals.
+
+import { generate } from 'random-words';
+import { createRandom } from './random';
+import type { WordWithHint } from './gemini';
+
+interface ThemedWordList {
+  keywords: string[];
+  words: WordWithHint[];
+}
+
+const THEMED_WORD_LISTS: ThemedWordList[] = [
+  {
+    keywords: ['diwali', 'deepavali', 'festival of lights', 'hindu', 'india'],
+    words: [
+      { word: 'DIYA', hint: 'Small clay oil lamp' },
+      { word: 'RANGOLI', hint: 'Colourful floor pattern made with powder' },
+      { word: 'LAKSHMI', hint: 'Goddess of wealth welcomed into homes' },
+      { word: 'SWEETS', hint: 'Treats shared with family and neighbours' },
+      { word: 'FIREWORKS', hint: 'Bright bursts in the night sky' },
+      { word: 'LANTERN', hint: 'Light hung outside the door' },
+      { word: 'CANDLE', hint: 'Wax light with a wick' },
+      { word: 'LADDU', hint: 'Round sweet made from flour and sugar' },
+      { word: 'RAMA', hint: 'Prince whose return home is celebrated' },
+      { word: 'SITA', hint: 'Wife of the returning prince' },
+      { word: 'AYODHYA', hint: 'City lit up for a royal homecoming' },
+      { word: 'MARIGOLD', hint: 'Orange flower strung into garlands' },
+      { word: 'GARLAND', hint: 'String of flowers' },
+      { word: 'PUJA', hint: 'Prayer ritual' },
+      { word: 'GIFTS', hint: 'Presents exchanged' },
+      { word: 'FAMILY', hint: 'People who gather to celebrate' },
+      { word: 'LIGHTS', hint: 'What the festival is named after' },
+      { word: 'KOLAM', hint: 'Rice flour drawing at the doorstep' },
+      { word: 'SPARKLER', hint: 'Handheld firework that fizzes' },
+      { word: 'NEWYEAR', hint: 'Fresh start for many traders' },
+    ],
+  },
+  {
+    keywords: ['christmas', 'xmas', 'santa', 'noel', 'advent'],
+    words: [
+      { word: 'SANTA', hint: 'Jolly gift-giver in a red suit' },
+      { word: 'REINDEER', hint: 'Pulls the sleigh' },
+      { word: 'SLEIGH', hint: 'Sled for a rooftop journey' },
+      { word: 'STOCKING', hint: 'Hung by the fireplace' },
+      { word: 'TINSEL', hint: 'Shiny strands on the tree' },
+      { word: 'ORNAMENT', hint: 'Bauble hanging from a branch' },
+      { word: 'CAROL', hint: 'Festive song' },
+      { word: 'ELF', hint: 'Workshop helper' },
+      { word: 'SNOWMAN', hint: 'Built in the yard with a carrot nose' },
+      { word: 'MISTLETOE', hint: 'Hang it up and wait under it' },
+      { word: 'WREATH', hint: 'Ring of greenery on the door' },
+      { word: 'PRESENTS', hint: 'Wrapped under the tree' },
+      { word: 'CHIMNEY', hint: 'Unusual way into the house' },
+      { word: 'GINGERBREAD', hint: 'Spiced biscuit shaped like a person' },
+      { word: 'HOLLY', hint: 'Prickly leaves with red berries' },
+      { word: 'NATIVITY', hint: 'Scene with a manger' },
+      { word: 'ANGEL', hint: 'Often perched on the treetop' },
+      { word: 'CANDYCANE', hint: 'Striped hooked sweet' },
+    ],
+  },
+  {
+    keywords: ['halloween', 'spooky', 'scary', 'ghost', 'monster', 'witch'],
+    words: [
+      { word: 'PUMPKIN', hint: 'Carved into a glowing face' },
+      { word: 'GHOST', hint: 'Says boo' },
+      { word: 'WITCH', hint: 'Rides a broomstick' },
+      { word: 'BROOMSTICK', hint: 'Flying sweeper' },
+      { word: 'SKELETON', hint: 'All bones' },
+      { word: 'VAMPIRE', hint: 'Avoids garlic and sunlight' },
+      { word: 'ZOMBIE', hint: 'Shuffling undead' },
+      { word: 'CAULDRON', hint: 'Big pot for bubbling potions' },
+      { word: 'COSTUME', hint: 'Dress up as someone else' },
+      { word: 'CANDY', hint: 'Collected door to door' },
+      { word: 'BAT', hint: 'Flies at night, hangs upside down' },
+      { word: 'SPIDER', hint: 'Spins a web' },
+      { word: 'MUMMY', hint: 'Wrapped in bandages' },
+      { word: 'LANTERN', hint: 'Jack-o-what' },
+      { word: 'HAUNTED', hint: 'Home to restless spirits' },
+      { word: 'GRAVEYARD', hint: 'Place of tombstones' },
+      { word: 'OWL', hint: 'Hoots in the dark' },
+      { word: 'CAT', hint: 'Black one crossing your path' },
+    ],
+  },
+  {
+    keywords: ['ocean', 'sea', 'marine', 'underwater', 'beach', 'coral', 'reef', 'fish'],
+    words: [
+      { word: 'DOLPHIN', hint: 'Clever, playful mammal that clicks' },
+      { word: 'WHALE', hint: 'Largest animal on Earth' },
+      { word: 'SHARK', hint: 'Fin above the water' },
+      { word: 'OCTOPUS', hint: 'Eight arms and three hearts' },
+      { word: 'JELLYFISH', hint: 'Drifting stinger with no brain' },
+      { word: 'SEAHORSE', hint: 'The father carries the babies' },
+      { word: 'STARFISH', hint: 'Five-armed star of the rock pool' },
+      { word: 'CRAB', hint: 'Walks sideways' },
+      { word: 'LOBSTER', hint: 'Big claws, turns red when cooked' },
+      { word: 'TURTLE', hint: 'Carries its home on its back' },
+      { word: 'CORAL', hint: 'Builds reefs' },
+      { word: 'SQUID', hint: 'Squirts ink to escape' },
+      { word: 'SEAL', hint: 'Barks and balances balls' },
+      { word: 'ORCA', hint: 'Black and white killer' },
+      { word: 'CLAM', hint: 'Shell that clams up' },
+      { word: 'OYSTER', hint: 'May hide a pearl' },
+      { word: 'ANEMONE', hint: 'Clownfish home' },
+      { word: 'STINGRAY', hint: 'Flat fish with a barbed tail' },
+      { word: 'WALRUS', hint: 'Tusks and whiskers' },
+      { word: 'PLANKTON', hint: 'Tiny drifting life' },
+      { word: 'KELP', hint: 'Underwater forest seaweed' },
+      { word: 'NARWHAL', hint: 'Unicorn of the sea' },
+      { word: 'EEL', hint: 'Snake-like fish' },
+      { word: 'SHRIMP', hint: 'Small curled crustacean' },
+    ],
+  },
+  {
+    keywords: ['space', 'planet', 'astronomy', 'star', 'galaxy', 'rocket', 'universe', 'solar'],
+    words: [
+      { word: 'PLANET', hint: 'Wanders around a star' },
+      { word: 'GALAXY', hint: 'Billions of stars together' },
+      { word: 'COMET', hint: 'Icy visitor with a tail' },
+      { word: 'ASTEROID', hint: 'Rocky body in a belt' },
+      { word: 'ROCKET', hint: 'Blasts off' },
+      { word: 'ASTRONAUT', hint: 'Space traveller' },
+      { word: 'ORBIT', hint: 'Curved path around a body' },
+      { word: 'NEBULA', hint: 'Cloud where stars are born' },
+      { word: 'MERCURY', hint: 'Closest planet to the Sun' },
+      { word: 'VENUS', hint: 'Hottest planet' },
+      { word: 'MARS', hint: 'The red planet' },
+      { word: 'JUPITER', hint: 'Biggest planet' },
+      { word: 'SATURN', hint: 'Famous for its rings' },
+      { word: 'URANUS', hint: 'Spins on its side' },
+      { word: 'NEPTUNE', hint: 'Windy blue giant' },
+      { word: 'MOON', hint: 'Earth has one' },
+      { word: 'ECLIPSE', hint: 'One body hides another' },
+      { word: 'TELESCOPE', hint: 'Brings the sky closer' },
+      { word: 'METEOR', hint: 'Shooting star' },
+      { word: 'GRAVITY', hint: 'Keeps your feet on the ground' },
+      { word: 'SATELLITE', hint: 'Circles the planet' },
+      { word: 'COSMOS', hint: 'Everything out there' },
+    ],
+  },
+  {
+    keywords: ['dinosaur', 'dinosaurs', 'prehistoric', 'jurassic', 'fossil'],
+    words: [
+      { word: 'TREX', hint: 'Tiny arms, huge teeth' },
+      { word: 'RAPTOR', hint: 'Fast, clever hunter' },
+      { word: 'FOSSIL', hint: 'Ancient remains in stone' },
+      { word: 'STEGOSAURUS', hint: 'Plates along its back' },
+      { word: 'TRICERATOPS', hint: 'Three horns on its face' },
+      { word: 'PTERODACTYL', hint: 'Flying reptile' },
+      { word: 'BRONTOSAURUS', hint: 'Long-necked giant' },
+      { word: 'EXTINCT', hint: 'Gone forever' },
+      { word: 'JURASSIC', hint: 'Period in the middle of the dinosaur age' },
+      { word: 'METEOR', hint: 'Possible end of the dinosaurs' },
+      { word: 'SKELETON', hint: 'Rebuilt in museums' },
+      { word: 'EGG', hint: 'Where a baby dinosaur starts' },
+      { word: 'CLAW', hint: 'Sharp curved nail' },
+      { word: 'HERBIVORE', hint: 'Plant eater' },
+      { word: 'CARNIVORE', hint: 'Meat eater' },
+      { word: 'AMBER', hint: 'Golden resin that traps insects' },
+    ],
+  },
+  {
+    keywords: ['weather', 'climate', 'storm', 'season', 'seasons'],
+    words: [
+      { word: 'RAIN', hint: 'Falls from clouds' },
+      { word: 'SNOW', hint: 'Frozen flakes' },
+      { word: 'THUNDER', hint: 'Rumble after the flash' },
+      { word: 'LIGHTNING', hint: 'Bright bolt' },
+      { word: 'RAINBOW', hint: 'Arc of colours after rain' },
+      { word: 'TORNADO', hint: 'Spinning funnel of wind' },
+      { word: 'HURRICANE', hint: 'Huge tropical storm' },
+      { word: 'CLOUD', hint: 'Fluffy sky drifter' },
+      { word: 'SUNSHINE', hint: 'Warm light from above' },
+      { word: 'FOG', hint: 'Cloud at ground level' },
+      { word: 'HAIL', hint: 'Balls of ice' },
+      { word: 'BREEZE', hint: 'Gentle wind' },
+      { word: 'DROUGHT', hint: 'Long dry spell' },
+      { word: 'FROST', hint: 'Icy coating on the grass' },
+      { word: 'DRIZZLE', hint: 'Light rain' },
+      { word: 'HUMID', hint: 'Sticky, damp air' },
+      { word: 'FORECAST', hint: 'Prediction for tomorrow' },
+      { word: 'BLIZZARD', hint: 'Snowstorm with strong wind' },
+    ],
+  },
+  {
+    keywords: ['sport', 'sports', 'game', 'games', 'olympics', 'team'],
+    words: [
+      { word: 'SOCCER', hint: 'Played with feet and a round ball' },
+      { word: 'TENNIS', hint: 'Racket, net and love' },
+      { word: 'CRICKET', hint: 'Bat, ball and wickets' },
+      { word: 'HOCKEY', hint: 'Stick and puck or ball' },
+      { word: 'RUGBY', hint: 'Oval ball, scrums and tries' },
+      { word: 'GOLF', hint: 'Eighteen holes' },
+      { word: 'SWIMMING', hint: 'Laps of the pool' },
+      { word: 'CYCLING', hint: 'Racing on two wheels' },
+      { word: 'BOXING', hint: 'Gloves in the ring' },
+      { word: 'ARCHERY', hint: 'Bow and arrow' },
+      { word: 'REFEREE', hint: 'Blows the whistle' },
+      { word: 'STADIUM', hint: 'Big venue with stands' },
+      { word: 'MEDAL', hint: 'Gold, silver or bronze' },
+      { word: 'TROPHY', hint: 'Cup for the winners' },
+      { word: 'GOAL', hint: 'Score one' },
+      { word: 'MARATHON', hint: 'Long-distance run' },
+      { word: 'BASKETBALL', hint: 'Hoops and dribbling' },
+      { word: 'VOLLEYBALL', hint: 'Bump, set, spike' },
+    ],
+  },
+  {
+    keywords: ['music', 'instrument', 'instruments', 'band', 'orchestra', 'song'],
+    words: [
+      { word: 'GUITAR', hint: 'Six strings and a strum' },
+      { word: 'PIANO', hint: 'Black and white keys' },
+      { word: 'VIOLIN', hint: 'Played with a bow under the chin' },
+      { word: 'DRUMS', hint: 'Keep the beat' },
+      { word: 'TRUMPET', hint: 'Brass with three valves' },
+      { word: 'FLUTE', hint: 'Blown across the side' },
+      { word: 'CELLO', hint: 'Big string instrument held between the knees' },
+      { word: 'HARP', hint: 'Plucked strings on a frame' },
+      { word: 'MELODY', hint: 'The tune you hum' },
+      { word: 'RHYTHM', hint: 'Pattern of beats' },
+      { word: 'CHORUS', hint: 'Part everyone sings along to' },
+      { word: 'TEMPO', hint: 'Speed of the music' },
+      { word: 'CONCERT', hint: 'Live performance' },
+      { word: 'CONDUCTOR', hint: 'Waves the baton' },
+      { word: 'SAXOPHONE', hint: 'Jazzy curved reed instrument' },
+      { word: 'HARMONY', hint: 'Notes that sound good together' },
+      { word: 'LYRICS', hint: 'Words of a song' },
+      { word: 'CLARINET', hint: 'Black woodwind with a single reed' },
+    ],
+  },
+  {
+    keywords: ['food', 'cooking', 'kitchen', 'fruit', 'vegetable', 'vegetables', 'baking', 'meal'],
+    words: [
+      { word: 'APPLE', hint: 'Keeps the doctor away' },
+      { word: 'BANANA', hint: 'Yellow and curved' },
+      { word: 'CARROT', hint: 'Orange root loved by rabbits' },
+      { word: 'TOMATO', hint: 'Fruit often mistaken for a vegetable' },
+      { word: 'PASTA', hint: 'Italian noodles' },
+      { word: 'PIZZA', hint: 'Sliced and shared' },
+      { word: 'BREAD', hint: 'Baked loaf' },
+      { word: 'CHEESE', hint: 'Made from milk, loved by mice' },
+      { word: 'PANCAKE', hint: 'Flipped in a pan' },
+      { word: 'SANDWICH', hint: 'Filling between two slices' },
+      { word: 'NOODLES', hint: 'Long and slurpable' },
+      { word: 'CURRY', hint: 'Spiced sauce dish' },
+      { word: 'BROCCOLI', hint: 'Looks like tiny trees' },
+      { word: 'MUFFIN', hint: 'Small domed cake' },
+      { word: 'SPOON', hint: 'For soup' },
+      { word: 'OVEN', hint: 'Where things bake' },
+      { word: 'STRAWBERRY', hint: 'Red with seeds on the outside' },
+      { word: 'AVOCADO', hint: 'Green, creamy, big stone' },
+      { word: 'PINEAPPLE', hint: 'Spiky top, sweet inside' },
+      { word: 'ONION', hint: 'Layers that make you cry' },
+    ],
+  },
+  {
+    keywords: ['nature', 'garden', 'forest', 'plant', 'plants', 'tree', 'trees', 'flower', 'flowers'],
+    words: [
+      { word: 'FOREST', hint: 'Lots of trees' },
+      { word: 'MEADOW', hint: 'Grassy field of wildflowers' },
+      { word: 'RIVER', hint: 'Flows to the sea' },
+      { word: 'MOUNTAIN', hint: 'Tall rocky peak' },
+      { word: 'BLOSSOM', hint: 'Spring flowers on a tree' },
+      { word: 'TULIP', hint: 'Cup-shaped spring flower' },
+      { word: 'DAISY', hint: 'White petals, yellow centre' },
+      { word: 'SUNFLOWER', hint: 'Tall and follows the sun' },
+      { word: 'OAK', hint: 'Grows from an acorn' },
+      { word: 'MAPLE', hint: 'Leaf on a flag, syrup from its sap' },
+      { word: 'FERN', hint: 'Feathery leaves in the shade' },
+      { word: 'MOSS', hint: 'Soft green carpet on stones' },
+      { word: 'SEED', hint: 'Where a plant begins' },
+      { word: 'ROOTS', hint: 'Hold the plant in the soil' },
+      { word: 'POLLEN', hint: 'Yellow dust bees carry' },
+      { word: 'BUTTERFLY', hint: 'Once a caterpillar' },
+      { word: 'BEE', hint: 'Buzzing honey maker' },
+      { word: 'WATERFALL', hint: 'River going over the edge' },
+      { word: 'VALLEY', hint: 'Low land between hills' },
+    ],
+  },
+  {
+    keywords: ['animal', 'animals', 'zoo', 'farm', 'pet', 'pets', 'wildlife', 'safari', 'jungle'],
+    words: [
+      { word: 'ELEPHANT', hint: 'Never forgets, has a trunk' },
+      { word: 'GIRAFFE', hint: 'Longest neck around' },
+      { word: 'LION', hint: 'King of the jungle' },
+      { word: 'TIGER', hint: 'Big striped cat' },
+      { word: 'ZEBRA', hint: 'Striped horse' },
+      { word: 'MONKEY', hint: 'Swings through trees' },
+      { word: 'PANDA', hint: 'Black and white bamboo eater' },
+      { word: 'KANGAROO', hint: 'Hops with a pouch' },
+      { word: 'KOALA', hint: 'Sleepy eucalyptus eater' },
+      { word: 'RABBIT', hint: 'Long ears, loves carrots' },
+      { word: 'HORSE', hint: 'Gallops and neighs' },
+      { word: 'SHEEP', hint: 'Gives wool' },
+      { word: 'COW', hint: 'Gives milk and moos' },
+      { word: 'PIG', hint: 'Rolls in mud' },
+      { word: 'DOG', hint: 'Loyal barking friend' },
+      { word: 'CAT', hint: 'Purrs and meows' },
+      { word: 'HIPPO', hint: 'River horse' },
+      { word: 'RHINO', hint: 'Horned heavyweight' },
+      { word: 'CHEETAH', hint: 'Fastest on land' },
+      { word: 'PENGUIN', hint: 'Bird that swims but cannot fly' },
+      { word: 'CROCODILE', hint: 'Toothy river reptile' },
+      { word: 'SQUIRREL', hint: 'Stores nuts' },
+      { word: 'OWL', hint: 'Wise night bird' },
+      { word: 'FOX', hint: 'Sly with a bushy tail' },
+    ],
+  },
+  {
+    keywords: ['school', 'classroom', 'education', 'learning', 'study'],
+    words: [
+      { word: 'TEACHER', hint: 'Leads the class' },
+      { word: 'PENCIL', hint: 'Write and erase' },
+      { word: 'ERASER', hint: 'Rubs out mistakes' },
+      { word: 'BACKPACK', hint: 'Carries your books' },
+      { word: 'RULER', hint: 'Measures straight lines' },
+      { word: 'HOMEWORK', hint: 'Work done after class' },
+      { word: 'LIBRARY', hint: 'Borrow books here' },
+      { word: 'SCIENCE', hint: 'Experiments and discovery' },
+      { word: 'HISTORY', hint: 'Study of the past' },
+      { word: 'MATHS', hint: 'Numbers and shapes' },
+      { word: 'RECESS', hint: 'Break time outside' },
+      { word: 'NOTEBOOK', hint: 'Pages for notes' },
+      { word: 'DESK', hint: 'Where you sit and work' },
+      { word: 'CHALK', hint: 'Writes on a blackboard' },
+      { word: 'EXAM', hint: 'Test at the end of term' },
+      { word: 'SCISSORS', hint: 'Cut paper' },
+      { word: 'GLOBE', hint: 'Spinning map of the world' },
+      { word: 'ALPHABET', hint: 'A to Z' },
+    ],
+  },
+];
+
+// Grid letters only; anything else would never be findable
+function isGridWord(word: string): boolean {
+  return /^[A-Z]+$/.test(word);
+}
+
+// Mix a string seed into a number for createRandom
+function hashSeed(seed: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Every word in the lists once, for requests with no theme
+const ALL_THEMED_WORDS: WordWithHint[] = [
+  ...new Map(THEMED_WORD_LISTS.flatMap(list => list.words).map(entry => [entry.word, entry])).values()
+];
+
+// The best-matching list for a theme, or null if nothing matches. Words from
+// a list count too, so seed words like "dolphin, shark" find the ocean list.
+export function findThemedWordList(theme: string): WordWithHint[] | null {
+  const text = theme.toLowerCase();
+  const matches = (term: string) => new RegExp(`\\b${term.toLowerCase()}\\b`).test(text);
+  let best: ThemedWordList | null = null;
+  let bestScore = 0;
+
+  for (const list of THEMED_WORD_LISTS) {
+    const score = list.keywords.filter(matches).length + list.words.filter(({ word }) => matches(word)).length;
+    if (score > bestScore) {
+      best = list;
+      bestScore = score;
+    }
+  }
+
+  return best?.words ?? null;
+}
+
+// Hint for a word if any list has it
+export function findThemedHint(word: string): string | null {
+  return ALL_THEMED_WORDS.find(entry => entry.word === word.toUpperCase())?.hint ?? null;
+}
+
+interface ThemedWordOptions {
+  seed?: string;
+  minLength?: number;
+  maxLength?: number;
+}
+
+// Words for a theme from the local lists (all of them when the theme is
+// empty), shuffled by seed and topped up with random words once the themed
+// ones of the right lengths run out
+export function generateThemedWords(count: number, theme: string, options: ThemedWordOptions = {}): WordWithHint[] {
+  const minLength = options.minLength ?? 3;
+  const maxLength = options.maxLength ?? 12;
+  const seed = options.seed ?? String(Date.now());
+
+  const source = theme.trim() ? findThemedWordList(theme) ?? [] : ALL_THEMED_WORDS;
+  const themed = source
+    .filter(({ word }) => isGridWord(word) && word.length >= minLength && word.length <= maxLength);
+  const picked = createRandom(hashSeed(seed)).shuffle(themed).slice(0, count);
+
+  if (picked.length < count) {
+    const known = new Set(picked.map(({ word }) => word));
+    const padding = (generate({ exactly: (count - picked.length) * 3, minLength, maxLength, seed }) as string[])
+      .map(word => word.toUpperCase())
+      .filter(word => !known.has(word) && known.add(word));
+    picked.push(...padding.slice(0, count - picked.length).map(word => ({ word, hint: '' })));
+  }
+
+  return picked;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyAdaptiveThreshold,
+  applyGlobalThreshold,
+  computeHistogram,
+  otsuThreshold,
+  outlineMask,
+  toGrayscale
+} from './threshold';
+
+// Builds a binary image from rows of '#' (dark) and '.' (light)
+function image(rows: string[]) {
+  const binary = Uint8Array.from(rows.join(''), cell => (cell === '#' ? 0 : 255));
+  return { binary, width: rows[0].length, height: rows.length };
+}
+
+function show(mask: Uint8Array, width: number): string[] {
+  const rows: string[] = [];
+  for (let i = 0; i < mask.length; i += width) {
+    rows.push(Array.from(mask.subarray(i, i + width), value => (value === 0 ? '#' : '.')).join(''));
+  }
+  return rows;
+}
+
+describe('toGrayscale', () => {
+  it('weights the channels by luma and ignores alpha', () => {
+    const rgba = Uint8ClampedArray.from([255, 255, 255, 0, 255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]);
+    expect(Array.from(toGrayscale(rgba))).toEqual([255, 76, 150, 29]);
+  });
+});
+
+describe('otsuThreshold', () => {
+  it('cuts between the two peaks of a two-tone image', () => {
+    const gray = Uint8Array.from([...Array(60).fill(40), ...Array(40).fill(200)]);
+    const threshold = otsuThreshold(computeHistogram(gray));
+
+    expect(threshold).toBeGreaterThanOrEqual(40);
+    expect(threshold).toBeLessThan(200);
+    expect(Array.from(applyGlobalThreshold(gray, threshold)).filter(value => value === 0)).toHaveLength(60);
+  });
+
+  it('picks the valley of a noisy histogram', () => {
+    const gray = Uint8Array.from([30, 35, 40, 45, 50, 180, 185, 190, 195, 200]);
+    const threshold = otsuThreshold(computeHistogram(gray));
+
+    expect(threshold).toBeGreaterThanOrEqual(50);
+    expect(threshold).toBeLessThan(180);
+  });
+
+  it('falls back to 0 when there is only one tone', () => {
+    expect(otsuThreshold(computeHistogram(new Uint8Array(10).fill(128)))).toBe(0);
+  });
+});
+
+describe('applyAdaptiveThreshold', () => {
+  // Two dark strokes, the right one in a shadow that darkens that half
+  const width = 9;
+  const height = 3;
+  const gray = Uint8Array.from({ length: width * height }, (_, i) => {
+    const x = i % width;
+    const shade = x >= 5 ? 80 : 0;
+    return (x === 2 || x === 6 ? 100 : 220) - shade;
+  });
+
+  it('keeps dark strokes in and out of shadow where one cutoff can not', () => {
+    const dark = (mask: Uint8Array) => Array.from(mask.subarray(0, width), value => (value === 0 ? '#' : '.')).join('');
+
+    expect(dark(applyGlobalThreshold(gray, otsuThreshold(computeHistogram(gray))))).not.toBe('..#...#..');
+    for (const method of ['mean', 'gaussian'] as const) {
+      expect(dark(applyAdaptiveThreshold(gray, width, height, { method, windowSize: 3, offset: 10 }))).toBe('..#...#..');
+    }
+  });
+
+  it('leaves flat areas light', () => {
+    const flat = new Uint8Array(25).fill(90);
+    expect(Array.from(applyAdaptiveThreshold(flat, 5, 5, { method: 'mean', windowSize: 3, offset: 5 })).every(value => value === 255)).toBe(true);
+  });
+});
+
+describe('outlineMask', () => {
+  it('keeps the whole of a one-pixel stroke and a lone dot', () => {
+    const rows = [
+      '.........',
+      '.#######.',
+      '.........',
+      '.........',
+      '....#....',
+      '.........',
+      '.........'
+    ];
+    const { binary, width, height } = image(rows);
+
+    expect(show(outlineMask(binary, width, height, 1), width)).toEqual(rows);
+  });
+
+  it('keeps a band of the stroke width inside a filled shape', () => {
+    const { binary, width, height } = image([
+      '.......',
+      '.#####.',
+      '.#####.',
+      '.#####.',
+      '.#####.',
+      '.#####.',
+      '.......'
+    ]);
+
+    expect(show(outlineMask(binary, width, height, 1), width)).toEqual([
+      '.......',
+      '.#####.',
+      '.#...#.',
+      '.#...#.',
+      '.#...#.',
+      '.#####.',
+      '.......'
+    ]);
+    expect(show(outlineMask(binary, width, height, 2), width)).toEqual([
+      '.......',
+      '.#####.',
+      '.#####.',
+      '.##.##.',
+      '.#####.',
+      '.#####.',
+      '.......'
+    ]);
+  });
+
+  it('closes shapes that run off the image', () => {
+    const { binary, width, height } = image(['###', '###', '###']);
+
+    expect(show(outlineMask(binary, width, height, 1), width)).toEqual(['###', '#.#', '###']);
+  });
+});
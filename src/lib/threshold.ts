@@ -0,0 +1,194 @@
+// Grayscale thresholding for turning a photo into a mask.
+//
+// Pure functions over pixel arrays so they can be used from the image store
+// without touching the DOM. Output pixels are 0 (dark: letters go here) or
+// 255 (light: left blank), matching what analyzeThresholdImage reads.
+
+export type ThresholdMode = 'global' | 'otsu' | 'adaptive';
+
+// How the local cutoff is averaged in adaptive mode
+export type AdaptiveMethod = 'mean' | 'gaussian';
+
+export interface AdaptiveOptions {
+  method: AdaptiveMethod;
+  windowSize: number; // Odd, in pixels
+  offset: number; // Subtracted from the local average; higher keeps fewer pixels dark
+}
+
+export const THRESHOLD_MODE_LABELS: Record<ThresholdMode, string> = {
+  global: 'Manual',
+  otsu: 'Automatic (Otsu)',
+  adaptive: 'Adaptive (local)',
+};
+
+// Luma of each RGBA pixel
+export function toGrayscale(data: Uint8ClampedArray): Uint8Array {
+  const gray = new Uint8Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return gray;
+}
+
+export function computeHistogram(gray: Uint8Array): number[] {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of gray) histogram[value]++;
+  return histogram;
+}
+
+// Otsu's method: the cutoff that maximises the variance between the dark and
+// light classes, which sits in the valley of a two-peaked histogram
+export function otsuThreshold(histogram: number[]): number {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  const weightedTotal = histogram.reduce((sum, count, value) => sum + value * count, 0);
+
+  let darkCount = 0;
+  let darkSum = 0;
+  let bestThreshold = 0;
+  let bestVariance = -1;
+
+  for (let threshold = 0; threshold < 256; threshold++) {
+    darkCount += histogram[threshold];
+    darkSum += threshold * histogram[threshold];
+    const lightCount = total - darkCount;
+    if (darkCount === 0 || lightCount === 0) continue;
+
+    const darkMean = darkSum / darkCount;
+    const lightMean = (weightedTotal - darkSum) / lightCount;
+    const variance = darkCount * lightCount * (darkMean - lightMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = threshold;
+    }
+  }
+
+  return bestThreshold;
+}
+
+export function applyGlobalThreshold(gray: Uint8Array, threshold: number): Uint8Array {
+  return gray.map(value => (value > threshold ? 255 : 0));
+}
+
+// Box average over a square window using a summed-area table, clamped at the
+// image edges
+function meanFilter(gray: Uint8Array, width: number, height: number, radius: number): Float32Array {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const mean = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const sum = integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right]
+        - integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left];
+      mean[y * width + x] = sum / ((bottom - top) * (right - left));
+    }
+  }
+  return mean;
+}
+
+// Separable Gaussian blur; sigma follows OpenCV's choice for a given window
+function gaussianFilter(gray: Uint8Array, width: number, height: number, radius: number): Float32Array {
+  const sigma = 0.3 * (radius - 1) + 0.8;
+  const kernel = Array.from({ length: radius * 2 + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)));
+
+  const blurLine = (read: (i: number) => number, length: number, write: (i: number, value: number) => void) => {
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      let weight = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const j = i + k;
+        if (j < 0 || j >= length) continue;
+        sum += read(j) * kernel[k + radius];
+        weight += kernel[k + radius];
+      }
+      write(i, sum / weight);
+    }
+  };
+
+  const horizontal = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    blurLine(x => gray[y * width + x], width, (x, value) => { horizontal[y * width + x] = value; });
+  }
+  const blurred = new Float32Array(width * height);
+  for (let x = 0; x < width; x++) {
+    blurLine(y => horizontal[y * width + x], height, (y, value) => { blurred[y * width + x] = value; });
+  }
+  return blurred;
+}
+
+// Each pixel is compared with the average of its neighbourhood rather than one
+// cutoff for the whole photo, so a shadow across the subject doesn't swallow it
+export function applyAdaptiveThreshold(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  { method, windowSize, offset }: AdaptiveOptions
+): Uint8Array {
+  const radius = Math.max(1, Math.floor(windowSize / 2));
+  const local = method === 'gaussian'
+    ? gaussianFilter(gray, width, height, radius)
+    : meanFilter(gray, width, height, radius);
+  return gray.map((value, i) => (value > local[i] - offset ? 255 : 0));
+}
+
+// Whether the threshold result is used whole or only along its edges
+export type MaskStyle = 'filled' | 'outline';
+
+// Keep only a band `strokeWidth` pixels wide just inside the edges of the dark
+// shape. A dark pixel is on the edge when any of its eight neighbours is light
+// (anything outside the image counts as light, so shapes touching the border
+// are closed); one-pixel strokes and lone dots are all edge. The band grows
+// inwards from there one ring of neighbours at a time.
+export function outlineMask(binary: Uint8Array, width: number, height: number, strokeWidth: number): Uint8Array {
+  const isDark = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && binary[y * width + x] === 0;
+  const hasLightNeighbour = (x: number, y: number) => {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if ((dx !== 0 || dy !== 0) && !isDark(x + dx, y + dy)) return true;
+      }
+    }
+    return false;
+  };
+
+  const distance = new Int32Array(width * height).fill(-1);
+  let frontier: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isDark(x, y) && hasLightNeighbour(x, y)) {
+        distance[y * width + x] = 0;
+        frontier.push(y * width + x);
+      }
+    }
+  }
+
+  for (let ring = 1; ring < strokeWidth && frontier.length > 0; ring++) {
+    const next: number[] = [];
+    for (const index of frontier) {
+      const x = index % width;
+      const y = (index - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const neighbour = (y + dy) * width + x + dx;
+          if (isDark(x + dx, y + dy) && distance[neighbour] === -1) {
+            distance[neighbour] = ring;
+            next.push(neighbour);
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return Uint8Array.from(distance, value => (value === -1 ? 255 : 0));
+}
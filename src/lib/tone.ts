@@ -0,0 +1,38 @@
+// Letter tone: drawing each letter darker or heavier where the source image is
+// darker, so the finished grid reads as a halftone of the photo rather than a
+// flat silhouette. Cells carry the image's luminance; this maps it to a style.
+
+export type ToneMode = 'off' | 'shade' | 'weight' | 'both';
+
+export const TONE_MODE_LABELS: Record<ToneMode, string> = {
+  off: 'Off',
+  shade: 'Letter shade',
+  weight: 'Letter weight',
+  both: 'Shade and weight',
+};
+
+export interface LetterTone {
+  color?: string;
+  fontWeight?: number;
+}
+
+// Lightest grey a letter is drawn in, so letters over white stay readable
+const LIGHTEST_SHADE = 208;
+
+// `luminance` runs from 0 (black) to 1 (white); cells without one keep the
+// default style
+export function letterTone(luminance: number | undefined, mode: ToneMode): LetterTone {
+  if (luminance === undefined || mode === 'off') return {};
+
+  const level = Math.min(1, Math.max(0, luminance));
+  const tone: LetterTone = {};
+  if (mode !== 'weight') {
+    const shade = Math.round(level * LIGHTEST_SHADE);
+    tone.color = `rgb(${shade}, ${shade}, ${shade})`;
+  }
+  if (mode !== 'shade') {
+    // CSS weights go from 100 to 900 in steps of 100
+    tone.fontWeight = 100 + Math.round((1 - level) * 8) * 100;
+  }
+  return tone;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { checkWordImport, detectImportFormat, parseWordList } from './word-import';
+
+const options = { separators: 'strip' as const, foldDiacritics: true, minLength: 2, maxLength: 8 };
+
+describe('detectImportFormat', () => {
+  it('goes by the extension and treats anything else as plain text', () => {
+    expect(detectImportFormat('Words.CSV')).toBe('csv');
+    expect(detectImportFormat('words.tsv')).toBe('tsv');
+    expect(detectImportFormat('words.json')).toBe('json');
+    expect(detectImportFormat('words.txt')).toBe('text');
+    expect(detectImportFormat('words')).toBe('text');
+  });
+});
+
+describe('parseWordList', () => {
+  it('reads plain text one word per line or comma', () => {
+    expect(parseWordList('crab\r\n shark , \n\neel', 'text')).toEqual([
+      { word: 'crab', hint: '' },
+      { word: 'shark', hint: '' },
+      { word: 'eel', hint: '' }
+    ]);
+  });
+
+  it('skips a header row and keeps quoted delimiters in hints', () => {
+    const csv = 'word,hint\nocean,"Salty, wide and deep"\n"say ""hi""",Greeting\nreef';
+    expect(parseWordList(csv, 'csv')).toEqual([
+      { word: 'ocean', hint: 'Salty, wide and deep' },
+      { word: 'say "hi"', hint: 'Greeting' },
+      { word: 'reef', hint: '' }
+    ]);
+  });
+
+  it('reads tab-separated rows', () => {
+    expect(parseWordList('kelp\tUnderwater forest', 'tsv')).toEqual([{ word: 'kelp', hint: 'Underwater forest' }]);
+  });
+
+  it('reads JSON objects and plain strings', () => {
+    expect(parseWordList('[{"word": "tide", "hint": "Comes in twice a day"}, "wave", {"word": 3}]', 'json')).toEqual([
+      { word: 'tide', hint: 'Comes in twice a day' },
+      { word: 'wave', hint: '' },
+      { word: '', hint: '' }
+    ]);
+    expect(() => parseWordList('{"words": []}', 'json')).toThrow('Expected a JSON array of words');
+  });
+});
+
+describe('checkWordImport', () => {
+  it('accepts normalised words and keeps a display form only when it adds something', () => {
+    const preview = checkWordImport([{ word: 'ice cream', hint: ' Cold ' }, { word: 'coral', hint: '' }], [], options);
+
+    expect(preview.accepted).toEqual([
+      { word: 'ICECREAM', hint: 'Cold', display: 'ice cream' },
+      { word: 'CORAL', hint: '' }
+    ]);
+    expect(preview.rejected).toEqual([]);
+  });
+
+  it('turns down words already in the list or earlier in the import', () => {
+    const preview = checkWordImport([{ word: 'Shark', hint: '' }, { word: 'crab', hint: '' }, { word: 'CRAB', hint: '' }], ['SHARK'], options);
+
+    expect(preview.accepted.map(({ word }) => word)).toEqual(['CRAB']);
+    expect(preview.rejected).toEqual([
+      { entry: { word: 'Shark', hint: '' }, reason: 'duplicate' },
+      { entry: { word: 'CRAB', hint: '' }, reason: 'duplicate' }
+    ]);
+  });
+
+  it('gives the reason for each word that can not go in', () => {
+    const preview = checkWordImport(
+      [{ word: 'swordfish', hint: '' }, { word: 'R2D2', hint: '' }, { word: 'A', hint: '' }],
+      [],
+      options
+    );
+
+    expect(preview.accepted).toEqual([]);
+    expect(preview.rejected.map(({ reason }) => reason)).toEqual(['too-long', 'not-letters', 'too-short']);
+  });
+
+  it('checks each part of a split entry on its own', () => {
+    const preview = checkWordImport([{ word: 'sea swordfish', hint: '' }], [], { ...options, separators: 'split' });
+
+    expect(preview.accepted).toEqual([{ word: 'SEA', hint: '' }]);
+    expect(preview.rejected).toEqual([{ entry: { word: 'swordfish', hint: '' }, reason: 'too-long' }]);
+  });
+});
@@ -0,0 +1,141 @@
+// Bulk word entry: pasted lists and imported files.
+//
+// Parsing only splits the input into word/hint entries; checkWordImport then
+// normalises them and decides which can go into the puzzle, so the builder can
+// show the rejected ones before anything is added.
+
+import type { WordWithHint } from './gemini';
+import { normalizeWord, type WordNormalizationOptions, type WordNormalizationProblem } from './word-normalize';
+
+export type WordImportFormat = 'text' | 'csv' | 'tsv' | 'json';
+
+export type WordImportRejection = WordNormalizationProblem | 'duplicate';
+
+export interface RejectedWordEntry {
+  entry: WordWithHint;
+  reason: WordImportRejection;
+}
+
+export interface WordImportPreview {
+  accepted: WordWithHint[];
+  rejected: RejectedWordEntry[];
+}
+
+export const WORD_IMPORT_REJECTION_LABELS: Record<WordImportRejection, string> = {
+  duplicate: 'Already in the list',
+  'not-letters': 'Contains characters other than letters',
+  'has-separators': 'Contains spaces or hyphens',
+  'too-short': 'Too short',
+  'too-long': 'Too long for the grid',
+  empty: 'Empty entry',
+};
+
+export const WORD_IMPORT_ACCEPT = '.txt,.csv,.tsv,.json';
+
+export function detectImportFormat(fileName: string): WordImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'tsv') return 'tsv';
+  if (extension === 'json') return 'json';
+  return 'text';
+}
+
+// Split one delimited line, honouring double quotes so hints can contain the
+// delimiter ("ocean","Salty, wide and deep")
+function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  return cells.map(value => value.trim());
+}
+
+// word[,hint] rows; a first row of "word,hint" headers is skipped
+function parseDelimited(text: string, delimiter: string): WordWithHint[] {
+  const rows = text.split(/\r?\n/).filter(line => line.trim()).map(line => splitDelimitedLine(line, delimiter));
+  if (rows.length > 0 && rows[0][0].toLowerCase() === 'word') rows.shift();
+  return rows.map(([word = '', hint = '']) => ({ word, hint }));
+}
+
+// A JSON array of WordWithHint objects; plain strings are accepted too
+function parseJson(text: string): WordWithHint[] {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a JSON array of words');
+  }
+
+  return parsed.map(item => {
+    if (typeof item === 'string') return { word: item, hint: '' };
+    const { word, hint } = (item ?? {}) as { word?: unknown; hint?: unknown };
+    return {
+      word: typeof word === 'string' ? word : '',
+      hint: typeof hint === 'string' ? hint : ''
+    };
+  });
+}
+
+// Turn pasted text or file contents into entries. Plain text is one word per
+// line or comma, which is how spelling lists usually arrive.
+export function parseWordList(text: string, format: WordImportFormat): WordWithHint[] {
+  switch (format) {
+    case 'csv':
+      return parseDelimited(text, ',');
+    case 'tsv':
+      return parseDelimited(text, '\t');
+    case 'json':
+      return parseJson(text);
+    case 'text':
+      return text.split(/[\n\r,]+/).map(word => ({ word: word.trim(), hint: '' })).filter(({ word }) => word);
+  }
+}
+
+// Sort entries into those that can be added and those that can't, after
+// normalising them for the grid and comparing against the words already in
+// the list
+export function checkWordImport(
+  entries: WordWithHint[],
+  existingWords: string[],
+  options: WordNormalizationOptions
+): WordImportPreview {
+  const seen = new Set(existingWords.map(word => word.toUpperCase()));
+  const accepted: WordWithHint[] = [];
+  const rejected: RejectedWordEntry[] = [];
+
+  for (const entry of entries) {
+    for (const { word, display, problem } of normalizeWord(entry.word, options)) {
+      const reason: WordImportRejection | null = problem ?? (seen.has(word) ? 'duplicate' : null);
+      if (reason) {
+        rejected.push({ entry: { ...entry, word: display }, reason });
+        continue;
+      }
+
+      seen.add(word);
+      // Only worth keeping the display form when it's more than a change of case
+      accepted.push({ word, hint: entry.hint.trim(), ...(display.toUpperCase() !== word ? { display } : {}) });
+    }
+  }
+
+  return { accepted, rejected };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { foldDiacritics, normalizeWord, type WordNormalizationOptions } from './word-normalize';
+
+const options: WordNormalizationOptions = { separators: 'strip', foldDiacritics: true, minLength: 2, maxLength: 10 };
+
+describe('foldDiacritics', () => {
+  it('drops accents and spells out ligatures', () => {
+    expect(foldDiacritics('Crème brûlée')).toBe('Creme brulee');
+    expect(foldDiacritics('Straße, Æsop, smørrebrød')).toBe('Strasse, AEsop, smorrebrod');
+  });
+});
+
+describe('normalizeWord', () => {
+  it('upper-cases a plain word and keeps what was typed for display', () => {
+    expect(normalizeWord('  ocean ', options)).toEqual([{ word: 'OCEAN', display: 'ocean', problem: null }]);
+  });
+
+  it('joins spaces, hyphens and apostrophes when stripping', () => {
+    expect(normalizeWord('ice   cream', options)).toEqual([{ word: 'ICECREAM', display: 'ice cream', problem: null }]);
+    expect(normalizeWord("Jack-o'-lantern", { ...options, maxLength: 20 })[0].word).toBe('JACKOLANTERN');
+  });
+
+  it('splits into one word per part, each with its own display form', () => {
+    expect(normalizeWord('Crème brûlée', { ...options, separators: 'split' })).toEqual([
+      { word: 'CREME', display: 'Crème', problem: null },
+      { word: 'BRULEE', display: 'brûlée', problem: null }
+    ]);
+  });
+
+  it('rejects separators when told to', () => {
+    expect(normalizeWord('ice cream', { ...options, separators: 'reject' })[0].problem).toBe('has-separators');
+  });
+
+  it('only accepts accented letters once folded', () => {
+    expect(normalizeWord('Café', options)).toEqual([{ word: 'CAFE', display: 'Café', problem: null }]);
+    expect(normalizeWord('Café', { ...options, foldDiacritics: false })[0].problem).toBe('not-letters');
+    expect(normalizeWord('R2D2', options)[0].problem).toBe('not-letters');
+  });
+
+  it('checks lengths, unless the grid size is not known yet', () => {
+    expect(normalizeWord('A', options)[0].problem).toBe('too-short');
+    expect(normalizeWord('Constellation', options)[0].problem).toBe('too-long');
+    expect(normalizeWord('Constellation', { ...options, maxLength: 0 })[0].problem).toBeNull();
+    expect(normalizeWord('   ', options)[0].problem).toBe('empty');
+  });
+});
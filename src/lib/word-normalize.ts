@@ -0,0 +1,85 @@
+// Turns what the user typed into what the grid can hold.
+//
+// The grid only has A-Z, so "ice cream", "Jack-o'-lantern" and "Café" need
+// their separators and accents dealt with before placement. The original text
+// is kept as the display form for word lists.
+
+import { LETTERS } from './word-search-engine';
+
+// What happens to spaces, hyphens and apostrophes inside an entry
+export type SeparatorPolicy = 'strip' | 'split' | 'reject';
+
+export type WordNormalizationProblem = 'empty' | 'has-separators' | 'not-letters' | 'too-short' | 'too-long';
+
+export interface WordNormalizationOptions {
+  separators: SeparatorPolicy;
+  foldDiacritics: boolean;
+  minLength: number;
+  maxLength: number; // 0 when the grid size isn't known yet
+}
+
+export interface NormalizedWord {
+  word: string; // Grid form
+  display: string; // As entered, tidied
+  problem: WordNormalizationProblem | null;
+}
+
+export const SEPARATOR_POLICY_LABELS: Record<SeparatorPolicy, string> = {
+  strip: 'Join up (ICE CREAM → ICECREAM)',
+  split: 'Split into separate words',
+  reject: 'Reject the entry',
+};
+
+// Shortest entry worth hiding; single letters are everywhere in the filler
+export const MIN_WORD_LENGTH = 2;
+
+const SEPARATORS = /[\s\-\u2010\u2011\u2013\u2014'\u2018\u2019`.\u00b7_]+/;
+
+// Letters NFD doesn't break into base letter + accent
+const LIGATURES: Record<string, string> = {
+  ß: 'ss', æ: 'ae', Æ: 'AE', œ: 'oe', Œ: 'OE', ø: 'o', Ø: 'O',
+  ł: 'l', Ł: 'L', đ: 'd', Đ: 'D', þ: 'th', Þ: 'TH', ı: 'i',
+};
+
+export function foldDiacritics(text: string): string {
+  return text
+    .replace(/[ßæÆœŒøØłŁđĐþÞı]/g, letter => LIGATURES[letter])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function checkGridForm(word: string, display: string, options: WordNormalizationOptions): NormalizedWord {
+  const problem: WordNormalizationProblem | null =
+    !word ? 'empty'
+    : [...word].some(letter => !LETTERS.includes(letter)) ? 'not-letters'
+    : word.length < options.minLength ? 'too-short'
+    : options.maxLength > 0 && word.length > options.maxLength ? 'too-long'
+    : null;
+  return { word, display, problem };
+}
+
+// One entry in, one or more grid words out (more only when splitting)
+export function normalizeWord(text: string, options: WordNormalizationOptions): NormalizedWord[] {
+  const display = text.trim().replace(/\s+/g, ' ');
+  if (!display) return [{ word: '', display, problem: 'empty' }];
+
+  const folded = options.foldDiacritics ? foldDiacritics(display) : display;
+
+  if (!SEPARATORS.test(folded)) {
+    return [checkGridForm(folded.toUpperCase(), display, options)];
+  }
+
+  switch (options.separators) {
+    case 'reject':
+      return [{ word: folded.toUpperCase(), display, problem: 'has-separators' }];
+    case 'strip':
+      return [checkGridForm(folded.split(SEPARATORS).join('').toUpperCase(), display, options)];
+    case 'split': {
+      const displayParts = display.split(SEPARATORS).filter(Boolean);
+      return folded
+        .split(SEPARATORS)
+        .filter(Boolean)
+        .map((part, i) => checkGridForm(part.toUpperCase(), displayParts[i] ?? part, options));
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createDictionaryProvider,
+  createModelProvider,
+  createOpenAiCompatibleProvider,
+  createRandomWordsProvider,
+  parseWordItems,
+  validateWordItem
+} from './word-providers';
+import { findThemedWordList } from './themed-words';
+
+// Stands in for a model: hands out the queued replies in order (an Error is
+// thrown instead of returned) and records every prompt it was sent
+function fakeModel(replies: (string | Error)[]) {
+  const prompts: string[] = [];
+  const complete = async (prompt: string) => {
+    prompts.push(prompt);
+    const reply = replies.shift();
+    if (reply === undefined) throw new Error('No reply queued');
+    if (reply instanceof Error) throw reply;
+    return reply;
+  };
+  return { prompts, provider: createModelProvider('openai-compatible', complete) };
+}
+
+const reply = (items: { word: string; hint: string }[]) => JSON.stringify({ words: items });
+
+beforeEach(() => {
+  // The providers log every attempt
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('parseWordItems', () => {
+  it('reads JSON inside a code fence', () => {
+    const text = '```json\n{"words": [{"word": "CRAB", "hint": "Walks sideways"}]}\n```';
+    expect(parseWordItems(text)).toEqual([{ word: 'CRAB', hint: 'Walks sideways' }]);
+  });
+
+  it('reads a bare array with prose around it', () => {
+    const text = 'Sure! Here are your words:\n[{"word": "SHARK", "hint": "Fin above the water"}]\nHave fun!';
+    expect(parseWordItems(text)).toEqual([{ word: 'SHARK', hint: 'Fin above the water' }]);
+  });
+
+  it('keeps the complete items of a reply cut off part way', () => {
+    const text = '{"words": [{"word": "SQUID", "hint": "Squirts ink"}, {"word": "WHALE", "hint": "Largest mam';
+    expect(parseWordItems(text)).toEqual([{ word: 'SQUID', hint: 'Squirts ink' }]);
+  });
+
+  it('returns nothing for a reply with no JSON', () => {
+    expect(parseWordItems('I cannot help with that.')).toEqual([]);
+  });
+});
+
+describe('validateWordItem', () => {
+  const rules = { minLength: 3, maxLength: 8 };
+
+  it('joins spaced and hyphenated words into grid form', () => {
+    expect(validateWordItem({ word: 'sea lion', hint: 'Barks on rocks' }, rules)).toEqual({ word: 'SEALION', hint: 'Barks on rocks' });
+    expect(validateWordItem({ word: 'T-Rex', hint: 'Tiny arms, big teeth' }, rules)).toEqual({ word: 'TREX', hint: 'Tiny arms, big teeth' });
+  });
+
+  it('turns down words with digits', () => {
+    expect(validateWordItem({ word: 'R2D2', hint: 'Beeping robot' }, rules)).toMatch(/outside the grid alphabet/);
+  });
+
+  it('turns down hints that contain the word', () => {
+    expect(validateWordItem({ word: 'STAR', hint: 'A starfish has five arms' }, rules)).toMatch(/gives the word away/);
+    expect(validateWordItem({ word: 'CAT', hint: 'Likes to locate mice' }, rules)).toEqual({ word: 'CAT', hint: 'Likes to locate mice' });
+  });
+
+  it('turns down words of the wrong length and missing hints', () => {
+    expect(validateWordItem({ word: 'OCTOPUSES', hint: 'Eight arms each' }, rules)).toMatch(/not 3-8 letters/);
+    expect(validateWordItem({ word: 'EEL', hint: '  ' }, rules)).toMatch(/no hint/);
+    expect(validateWordItem('EEL', rules)).toBe('not an object');
+  });
+});
+
+describe('createDictionaryProvider', () => {
+  it('gives random words rather than a mix of themes when there is no theme', async () => {
+    const dictionary = createDictionaryProvider();
+    const randomWords = createRandomWordsProvider();
+    const options = { seed: 'plain', minLength: 4, maxLength: 6 };
+
+    expect(await dictionary.generateWords(5, ' ', options)).toEqual(await randomWords.generateWords(5, undefined, options));
+    expect(await dictionary.generateWordsOfLength(5, 5, 'plain')).toEqual(await randomWords.generateWordsOfLength(5, 5, 'plain'));
+  });
+
+  it('follows a theme it has a list for', async () => {
+    const oceanWords = new Set(findThemedWordList('ocean')!.map(({ word }) => word));
+
+    const words = await createDictionaryProvider().generateWords(5, 'ocean', { seed: 'test' });
+
+    expect(words.every(({ word }) => oceanWords.has(word))).toBe(true);
+  });
+});
+
+describe('createModelProvider', () => {
+  it('merges partial replies and retries only for the shortfall', async () => {
+    const { prompts, provider } = fakeModel([
+      // Two usable words out of five: a digit, a giveaway hint and a repeat are dropped
+      reply([
+        { word: 'CORAL', hint: 'Reef builder' },
+        { word: 'B4RNACLE', hint: 'Clings to hulls' },
+        { word: 'SHELL', hint: 'A shell from the beach' },
+        { word: 'TIDE', hint: 'Comes in twice a day' },
+        { word: 'coral', hint: 'Pink and hard' }
+      ]),
+      // Asked for two, sends three: only two are taken
+      '```json\n' + reply([
+        { word: 'KELP', hint: 'Underwater forest plant' },
+        { word: 'WAVE', hint: 'Surfers ride it' },
+        { word: 'FOAM', hint: 'White froth' }
+      ]) + '\n```'
+    ]);
+
+    const words = await provider.generateWords(4, 'the seaside', { minLength: 3, maxLength: 8 });
+
+    expect(words.map(({ word }) => word)).toEqual(['CORAL', 'TIDE', 'KELP', 'WAVE']);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).toMatch(/Generate exactly 4 different words/);
+    expect(prompts[1]).toMatch(/Generate exactly 2 different words/);
+    expect(prompts[1]).toMatch(/Do not use any of these words: CORAL, TIDE/);
+  });
+
+  it('keeps what a reply cut off part way gave and asks again for the rest', async () => {
+    const { prompts, provider } = fakeModel([
+      '{"words": [{"word": "COMET", "hint": "Icy visitor with a tail"}, {"word": "ORB',
+      reply([{ word: 'ORBIT', hint: 'Path around the sun' }])
+    ]);
+
+    const words = await provider.generateWords(2, 'astronomy', { minLength: 3, maxLength: 8 });
+
+    expect(words).toEqual([
+      { word: 'COMET', hint: 'Icy visitor with a tail' },
+      { word: 'ORBIT', hint: 'Path around the sun' }
+    ]);
+    expect(prompts[1]).toMatch(/Generate exactly 1 different words/);
+  });
+
+  it('tops up from the local lists after the last attempt', async () => {
+    const { prompts, provider } = fakeModel([
+      reply([{ word: 'SEAHORSE', hint: 'Fish that swims upright' }]),
+      new Error('Server unavailable'),
+      'Sorry, I ran out of ideas.'
+    ]);
+
+    const words = await provider.generateWords(5, 'ocean', { seed: 'test', minLength: 3, maxLength: 8 });
+    const oceanWords = new Set(findThemedWordList('ocean')!.map(({ word }) => word));
+
+    expect(prompts).toHaveLength(3);
+    expect(words).toHaveLength(5);
+    expect(words[0]).toEqual({ word: 'SEAHORSE', hint: 'Fish that swims upright' });
+    expect(new Set(words.map(({ word }) => word)).size).toBe(5);
+    expect(words.slice(1).every(({ word }) => oceanWords.has(word))).toBe(true);
+  });
+
+  it('does not call the model for words without a theme', async () => {
+    const { prompts, provider } = fakeModel([]);
+
+    const words = await provider.generateWords(3, '  ', { seed: 'plain', minLength: 4, maxLength: 6 });
+
+    expect(prompts).toHaveLength(0);
+    expect(words).toHaveLength(3);
+  });
+
+  it('retries hints for the words still missing one and falls back for the rest', async () => {
+    const { prompts, provider } = fakeModel([
+      reply([
+        { word: 'PLANET', hint: 'Wanders around a star' },
+        { word: 'ROCKET', hint: 'A rocket goes up' }
+      ]),
+      reply([{ word: 'NEBULA', hint: 'Cloud where stars are born' }]),
+      'No more hints, sorry.'
+    ]);
+
+    const hints = await provider.generateHintsForWords(['planet', 'rocket', 'nebula', 'zorbing']);
+
+    expect(prompts).toHaveLength(3);
+    expect(prompts[1]).toMatch(/Words: ROCKET, NEBULA, ZORBING/);
+    expect(prompts[2]).toMatch(/Words: ROCKET, ZORBING/);
+    expect(hints).toEqual([
+      { word: 'PLANET', hint: 'Wanders around a star' },
+      // Never hinted by the model: the dictionary has this one
+      { word: 'ROCKET', hint: findThemedWordList('space')!.find(({ word }) => word === 'ROCKET')!.hint },
+      { word: 'NEBULA', hint: 'Cloud where stars are born' },
+      // Nor here: left empty for the word list to handle
+      { word: 'ZORBING', hint: '' }
+    ]);
+  });
+
+  it('passes the error on when no hint came back at all', async () => {
+    const { provider } = fakeModel([new Error('Bad key'), new Error('Bad key'), new Error('Bad key')]);
+
+    await expect(provider.generateHintsForWords(['COMET'])).rejects.toThrow('Bad key');
+  });
+});
+
+describe('createOpenAiCompatibleProvider', () => {
+  const chatReply = (content: string) => new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+
+  it('stops sending response_format once the server rejects it', async () => {
+    const bodies: { response_format?: unknown }[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      bodies.push(body);
+      if (body.response_format) return new Response('response_format not supported', { status: 400 });
+      return chatReply(reply([{ word: 'GALAXY', hint: 'Billions of stars together' }]));
+    }));
+
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:1234/v1/', model: 'test', apiKey: '' });
+    await provider.generateWords(1, 'space', { minLength: 3, maxLength: 8 });
+    await provider.generateWords(1, 'space', { minLength: 3, maxLength: 8 });
+
+    expect(bodies.map(body => 'response_format' in body)).toEqual([true, false, false]);
+  });
+});
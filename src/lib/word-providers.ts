@@ -0,0 +1,457 @@
+// Backends that supply words and hints.
+//
+// The store picks one of these from the user's choice in the builder; the
+// puzzle engine only ever sees the resulting WordSource. Model-backed
+// providers share their prompts, check every item they get back, retry for
+// the shortfall and finally fall back to the offline dictionary, so a flaky or
+// missing server never leaves the grid unfilled.
+
+import { Type, type GoogleGenAI } from '@google/genai';
+import { generate } from 'random-words';
+import type { WordGenerationOptions, WordWithHint } from './gemini';
+import { LETTERS } from './word-search-engine';
+import { findThemedHint, findThemedWordList, generateThemedWords } from './themed-words';
+
+export type WordProviderId = 'random-words' | 'dictionary' | 'gemini' | 'openai-compatible';
+
+export interface WordProvider {
+  id: WordProviderId;
+  generateWords: (count: number, theme?: string, options?: WordGenerationOptions) => Promise<WordWithHint[]>;
+  generateWordsOfLength: (count: number, length: number, seed?: string, theme?: string) => Promise<WordWithHint[]>;
+  generateWordsFromBase: (baseWords: string[], count: number) => Promise<WordWithHint[]>;
+  generateHintsForWords: (words: string[]) => Promise<WordWithHint[]>;
+}
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  model: string;
+  apiKey: string; // Optional for local servers
+}
+
+// Told about every failed model call, including ones a retry or the offline
+// dictionary later made up for, so the failure can still be shown
+export type ModelErrorHandler = (error: unknown) => void;
+
+export const WORD_PROVIDER_LABELS: Record<WordProviderId, string> = {
+  'random-words': 'Random words',
+  dictionary: 'Offline dictionary',
+  gemini: 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible server',
+};
+
+export const DEFAULT_GEMINI_MODEL = 'gemma-3-12b-it';
+
+export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: OpenAiCompatibleConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.2',
+  apiKey: '',
+};
+
+// Plain random English words; themes are ignored and only words the local
+// lists know get a hint
+export function createRandomWordsProvider(): WordProvider {
+  const generateWords = async (count: number, _theme?: string, options: WordGenerationOptions = {}) => {
+    const randomWords = generate({
+      exactly: count,
+      minLength: options.minLength ?? 3,
+      maxLength: options.maxLength ?? 12,
+      seed: options.seed
+    }) as string[];
+    return randomWords.map(word => ({ word: word.toUpperCase(), hint: '' }));
+  };
+
+  return {
+    id: 'random-words',
+    generateWords,
+
+    generateWordsOfLength: async (count, length, seed) => {
+      // random-words rarely has enough of one length, so ask around it and
+      // pad with the nearest lengths
+      const minLength = Math.max(3, length - 1);
+      const maxLength = length + 1;
+      const randomWords = generate({ exactly: count * 3, minLength, maxLength, seed }) as string[];
+
+      const exactLengthWords = randomWords.filter(word => word.length === length).slice(0, count);
+      if (exactLengthWords.length < count) {
+        const closeWords = randomWords
+          .filter(word => !exactLengthWords.includes(word))
+          .slice(0, count - exactLengthWords.length);
+        exactLengthWords.push(...closeWords);
+      }
+
+      return exactLengthWords.map(word => ({ word: word.toUpperCase(), hint: '' }));
+    },
+
+    generateWordsFromBase: (_baseWords, count) => generateWords(count),
+
+    generateHintsForWords: async words =>
+      words.map(word => ({ word: word.toUpperCase(), hint: findThemedHint(word) ?? '' }))
+  };
+}
+
+// Themed word lists bundled with the app; works without any network. Without
+// a theme there's nothing to pick a list by, so the words are random ones.
+export function createDictionaryProvider(): WordProvider {
+  const randomWords = createRandomWordsProvider();
+
+  return {
+    id: 'dictionary',
+
+    generateWords: async (count, theme, options = {}) => theme?.trim()
+      ? generateThemedWords(count, theme, options)
+      : randomWords.generateWords(count, undefined, options),
+
+    generateWordsOfLength: async (count, length, seed, theme) => theme?.trim()
+      ? generateThemedWords(count, theme, { seed, minLength: length, maxLength: length })
+      : randomWords.generateWordsOfLength(count, length, seed),
+
+    generateWordsFromBase: async (baseWords, count) => {
+      const seeds = baseWords.map(word => word.toUpperCase());
+      const related = (findThemedWordList(baseWords.join(' ')) ?? []).filter(({ word }) => !seeds.includes(word));
+      if (related.length >= count) return related.slice(0, count);
+      return [...related, ...await randomWords.generateWords(count - related.length)];
+    },
+
+    generateHintsForWords: async words =>
+      words.map(word => ({ word: word.toUpperCase(), hint: findThemedHint(word) ?? '' }))
+  };
+}
+
+// How many times a model is asked before settling for what it gave
+const MAX_ATTEMPTS = 3;
+
+// Every model prompt asks for this shape; backends that support structured
+// output are also given it as a schema
+const WORD_LIST_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    words: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          word: { type: 'string' },
+          hint: { type: 'string' }
+        },
+        required: ['word', 'hint'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['words'],
+  additionalProperties: false
+};
+
+const RESPONSE_FORMAT = `Format your response as a JSON object with a "words" array of objects containing "word" and "hint" fields:
+{"words": [
+  {"word": "EXAMPLE", "hint": "A sample or illustration"},
+  {"word": "ANOTHER", "hint": "One more or different"}
+]}
+
+Never use the word itself (or part of it) in its hint.`;
+
+// Pull the word/hint items out of a reply. Copes with code fences, prose
+// around the JSON, a bare array instead of {"words": [...]}, and replies cut
+// off part way, where every complete object before the cut is kept.
+export function parseWordItems(text: string): unknown[] {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+  const start = cleaned.search(/[[{]/);
+
+  if (start >= 0) {
+    const end = cleaned.lastIndexOf(cleaned[start] === '[' ? ']' : '}');
+    try {
+      const parsed: unknown = JSON.parse(cleaned.slice(start, end + 1));
+      if (Array.isArray(parsed)) return parsed;
+      const words = (parsed as { words?: unknown } | null)?.words;
+      if (Array.isArray(words)) return words;
+    } catch {
+      // Fall through and salvage whatever objects are intact
+    }
+  }
+
+  return (cleaned.match(/\{[^{}]*\}/g) ?? []).flatMap(candidate => {
+    try {
+      return [JSON.parse(candidate) as unknown];
+    } catch {
+      return [];
+    }
+  });
+}
+
+interface WordRules {
+  minLength: number;
+  maxLength: number;
+}
+
+// Check one reply item, fixing what can be fixed safely. Returns the item or
+// why it was turned down.
+export function validateWordItem(item: unknown, rules: WordRules): WordWithHint | string {
+  if (!item || typeof item !== 'object') return 'not an object';
+  const { word: rawWord, hint: rawHint } = item as { word?: unknown; hint?: unknown };
+  if (typeof rawWord !== 'string') return 'missing word';
+
+  // Models like "sea lion" and "T-Rex"; the grid wants SEALION and TREX
+  const word = rawWord.toUpperCase().replace(/[\s'’-]/g, '');
+  const hint = typeof rawHint === 'string' ? rawHint.trim() : '';
+
+  if (!word || [...word].some(letter => !LETTERS.includes(letter))) return `"${rawWord}" has letters outside the grid alphabet`;
+  if (word.length < rules.minLength || word.length > rules.maxLength) {
+    return `"${word}" is not ${rules.minLength}-${rules.maxLength} letters`;
+  }
+  if (!hint) return `"${word}" has no hint`;
+  // Whole hint words only, so CAT may still appear in "locate"
+  if (hint.toUpperCase().split(/[^A-Z]+/).some(token => token.startsWith(word))) return `hint for "${word}" gives the word away`;
+
+  return { word, hint };
+}
+
+// Ask until `count` good words are in hand or the attempts run out. Each retry
+// asks only for the shortfall and lists the words already taken, so partial
+// replies build up instead of failing the batch.
+async function collectWords(
+  complete: (prompt: string) => Promise<string>,
+  count: number,
+  rules: WordRules,
+  exclude: string[],
+  buildPrompt: (wanted: number, taken: string[]) => string
+): Promise<WordWithHint[]> {
+  const collected: WordWithHint[] = [];
+  const taken = new Set(exclude.map(word => word.toUpperCase()));
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS && collected.length < count; attempt++) {
+    let items: unknown[];
+    try {
+      items = parseWordItems(await complete(buildPrompt(count - collected.length, [...taken])));
+    } catch (error) {
+      console.warn(`⚠️ Attempt ${attempt}/${MAX_ATTEMPTS} failed:`, error);
+      continue;
+    }
+
+    const rejected: string[] = [];
+    for (const item of items) {
+      const result = validateWordItem(item, rules);
+      if (typeof result === 'string') rejected.push(result);
+      else if (taken.has(result.word)) rejected.push(`"${result.word}" repeats an earlier word`);
+      else if (collected.length < count) {
+        collected.push(result);
+        taken.add(result.word);
+      }
+    }
+
+    if (rejected.length > 0) console.warn(`⚠️ Attempt ${attempt}/${MAX_ATTEMPTS} rejected ${rejected.length} items:`, rejected);
+    console.log(`🤖 Attempt ${attempt}/${MAX_ATTEMPTS}: ${collected.length}/${count} usable words`);
+  }
+
+  return collected;
+}
+
+const avoidList = (taken: string[]) => taken.length > 0 ? `\n\nDo not use any of these words: ${taken.join(', ')}` : '';
+
+// Shared prompts for anything that turns a prompt into text. Without a theme
+// generated words stay plain random words so auto-fill doesn't make a model
+// call per batch for words nobody asked to be on-topic.
+export function createModelProvider(
+  id: WordProviderId,
+  completePrompt: (prompt: string) => Promise<string>,
+  onModelError?: ModelErrorHandler
+): WordProvider {
+  const randomWords = createRandomWordsProvider();
+  const dictionary = createDictionaryProvider();
+
+  const complete = async (prompt: string) => {
+    try {
+      return await completePrompt(prompt);
+    } catch (error) {
+      onModelError?.(error);
+      throw error;
+    }
+  };
+
+  const generateWords = async (count: number, theme?: string, options: WordGenerationOptions = {}) => {
+    const trimmedTheme = theme?.trim();
+    if (!trimmedTheme) return randomWords.generateWords(count, undefined, options);
+
+    const rules = { minLength: options.minLength ?? 3, maxLength: options.maxLength ?? 12 };
+    const lengthRule = rules.minLength === rules.maxLength
+      ? `exactly ${rules.minLength} letters long`
+      : `between ${rules.minLength} and ${rules.maxLength} letters long`;
+
+    const themedWords = await collectWords(complete, count, rules, [], (wanted, taken) =>
+      `Generate exactly ${wanted} different words on the theme "${trimmedTheme}" for a word search puzzle. Each word must be ${lengthRule}, a single word with letters only (no spaces, hyphens or digits).
+
+For each word, provide a helpful hint that gives clues about the word without being too obvious.
+
+${RESPONSE_FORMAT}
+
+Make sure the words:
+- Are clearly related to the theme
+- Are appropriate for all ages
+- Are not repeated${avoidList(taken)}`);
+
+    // Top up whatever the model didn't give us from the local lists
+    if (themedWords.length < count) {
+      console.log(`📚 Topping up ${count - themedWords.length} "${trimmedTheme}" words from local word lists`);
+      const known = new Set(themedWords.map(({ word }) => word));
+      const localWords = (await dictionary.generateWords(count * 2, trimmedTheme, { ...options, ...rules }))
+        .filter(({ word }) => !known.has(word));
+      themedWords.push(...localWords.slice(0, count - themedWords.length));
+    }
+
+    return themedWords;
+  };
+
+  return {
+    id,
+    generateWords,
+
+    generateWordsOfLength: (count, length, seed, theme) =>
+      theme?.trim()
+        ? generateWords(count, theme, { seed, minLength: length, maxLength: length })
+        : randomWords.generateWordsOfLength(count, length, seed),
+
+    generateWordsFromBase: async (baseWords, count) => {
+      const words = await collectWords(complete, count, { minLength: 4, maxLength: 12 }, baseWords, (wanted, taken) =>
+        `Based on these seed words: ${baseWords.join(', ')}
+
+Generate exactly ${wanted} words that are thematically related to or inspired by the seed words. Each word should be between 4-12 letters long and suitable for a word search puzzle.
+
+For each word, provide a helpful hint that gives clues about the word without being too obvious.
+
+${RESPONSE_FORMAT}
+
+Make sure the generated words:
+- Are related to the theme/topic of the seed words
+- Vary in length and difficulty
+- Are appropriate for all ages
+- Include a mix of nouns, verbs, adjectives, and proper nouns${avoidList(taken)}`);
+
+      if (words.length === 0) {
+        throw new Error('Model returned no usable words');
+      }
+      return words;
+    },
+
+    generateHintsForWords: async words => {
+      const hints = new Map<string, string>();
+      const wanted = words.map(word => word.toUpperCase());
+      let lastError: unknown = null;
+
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS && hints.size < wanted.length; attempt++) {
+        const missing = wanted.filter(word => !hints.has(word));
+        try {
+          const items = parseWordItems(await complete(`For each of the following words, provide a helpful hint that gives clues about the word without being too obvious. The hints should be appropriate for all ages and suitable for a word search puzzle.
+
+Words: ${missing.join(', ')}
+
+${RESPONSE_FORMAT}
+
+Make sure each hint:
+- Gives useful clues without being too direct
+- Is appropriate for all ages
+- Helps players identify the word in a word search context`));
+
+          for (const item of items) {
+            const result = validateWordItem(item, { minLength: 1, maxLength: Infinity });
+            if (typeof result !== 'string' && missing.includes(result.word)) hints.set(result.word, result.hint);
+          }
+        } catch (error) {
+          lastError = error;
+          console.warn(`⚠️ Hint attempt ${attempt}/${MAX_ATTEMPTS} failed:`, error);
+        }
+      }
+
+      if (hints.size === 0 && lastError) throw lastError;
+      if (hints.size < wanted.length) {
+        console.warn(`⚠️ No model hint for ${wanted.length - hints.size} words, using fallback hints`);
+      }
+
+      // Words the model never managed get a dictionary hint if there is one.
+      // Otherwise the hint stays empty so the word list shows its own
+      // fallback and a later attempt still counts the word as missing a clue.
+      return wanted.map(word => ({ word, hint: hints.get(word) ?? findThemedHint(word) ?? '' }));
+    }
+  };
+}
+
+export function createGeminiProvider(
+  genAI: GoogleGenAI,
+  onModelError?: ModelErrorHandler,
+  model = DEFAULT_GEMINI_MODEL
+): WordProvider {
+  // Gemma models on the Gemini API don't support JSON mode; they rely on the
+  // prompt and the tolerant parser instead
+  const structured = !model.startsWith('gemma');
+
+  return createModelProvider('gemini', async prompt => {
+    const response = await genAI.models.generateContent({
+      model,
+      contents: prompt,
+      config: structured
+        ? {
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: {
+                words: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: { word: { type: Type.STRING }, hint: { type: Type.STRING } },
+                    required: ['word', 'hint']
+                  }
+                }
+              },
+              required: ['words']
+            }
+          }
+        : undefined
+    });
+    if (!response.text) {
+      throw new Error('No text response from Gemini');
+    }
+    return response.text;
+  }, onModelError);
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself,
+// llama.cpp's server, Ollama, LM Studio, vLLM...
+export function createOpenAiCompatibleProvider(config: OpenAiCompatibleConfig, onModelError?: ModelErrorHandler): WordProvider {
+  // Servers that reject `response_format` get plain prompts from then on. The
+  // store keeps one provider per config so this sticks between calls.
+  let structured = true;
+
+  const request = (prompt: string) => fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model: config.model,
+      messages: [{ role: 'user', content: prompt }],
+      ...(structured
+        ? { response_format: { type: 'json_schema', json_schema: { name: 'word_list', strict: true, schema: WORD_LIST_JSON_SCHEMA } } }
+        : {})
+    })
+  });
+
+  return createModelProvider('openai-compatible', async prompt => {
+    let response = await request(prompt);
+    if (structured && (response.status === 400 || response.status === 422)) {
+      console.warn('⚠️ Word server rejected structured output, retrying with a plain prompt');
+      structured = false;
+      response = await request(prompt);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Word server responded with ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text) {
+      throw new Error('No text response from word server');
+    }
+    return text;
+  }, onModelError);
+}
@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  LETTERS,
+  cleanFillerLetters,
+  createGrid,
+  findAllOccurrences,
+  generateWordSearch,
+  getCellPosition,
+  toWordSearchWord,
+  type GridCell,
+  type WordInput,
+  type WordRequest,
+  type WordSource
+} from './word-search-engine';
+import { createRandom } from './random';
+
+// A mask of open ('#') and closed ('.') cells
+function mask(rows: string[]): boolean[][] {
+  return rows.map(row => [...row].map(cell => cell === '#'));
+}
+
+const openMask = (height: number, width: number) => mask(Array(height).fill('#'.repeat(width)));
+
+const words = (...texts: string[]): WordInput[] => texts.map(word => ({ word, hint: '' }));
+
+const letters = (grid: GridCell[][]) => grid.map(row => row.map(cell => cell.letter || '.').join(''));
+
+// Stands in for a word provider: random letters, reproducible from the
+// request's seed, and every request kept for inspection. A small alphabet
+// makes words that read again inside each other common.
+function fakeSource(alphabet = LETTERS) {
+  const requests: WordRequest[] = [];
+  const source: WordSource = async request => {
+    requests.push(request);
+    const random = createRandom(parseInt(request.seed, 36));
+    return Array.from({ length: request.count }, () => {
+      const length = request.minLength + random.int(request.maxLength - request.minLength + 1);
+      return { word: Array.from({ length }, () => random.pick([...alphabet])).join(''), hint: '' };
+    });
+  };
+  return { requests, source };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('generateWordSearch', () => {
+  it('builds the same grid from the same seed', async () => {
+    const run = (seed: number) =>
+      generateWordSearch(openMask(12, 12), words('OCEAN', 'CORAL', 'SHARK'), fakeSource().source, { seed });
+
+    const first = await run(7);
+    const second = await run(7);
+    const other = await run(8);
+
+    expect(letters(second.grid)).toEqual(letters(first.grid));
+    expect(second.words).toEqual(first.words);
+    expect(second.report).toEqual(first.report);
+    expect(letters(other.grid)).not.toEqual(letters(first.grid));
+  });
+
+  it('finds an arrangement by backtracking where random placement falls short', async () => {
+    // DEFG can only go at either end of the row for ABC to fit beside it
+    const run = (seed: number, placementMode: 'random' | 'backtracking') =>
+      generateWordSearch(mask(['#######']), words('DEFG', 'ABC'), null, {
+        seed,
+        placementMode,
+        directions: ['horizontal'],
+        allowOverlap: false
+      });
+
+    const seeds = Array.from({ length: 12 }, (_, i) => i + 1);
+    const random = await Promise.all(seeds.map(seed => run(seed, 'random')));
+    const backtracking = await Promise.all(seeds.map(seed => run(seed, 'backtracking')));
+
+    expect(random.some(({ report }) => report.placedWords < 2)).toBe(true);
+    for (const { report, grid } of backtracking) {
+      expect(report.placedWords).toBe(2);
+      expect(report.searchBudgetReached).toBe(false);
+      expect(['ABCDEFG', 'DEFGABC']).toContain(letters(grid)[0]);
+    }
+  });
+
+  it('says why a word was left out', async () => {
+    const { report } = await generateWordSearch(mask(['####']), words('ELEPHANT', 'WOLF', 'EEL'), null, {
+      seed: 1,
+      directions: ['horizontal'],
+      allowOverlap: false
+    });
+
+    expect(report.placedWords).toBe(1);
+    expect(report.unplacedWords).toEqual([
+      { id: 'input-1', word: 'ELEPHANT', reason: 'too-long' },
+      { id: 'input-3', word: 'EEL', reason: 'conflict' }
+    ]);
+  });
+
+  it('leaves every placed word readable exactly once', async () => {
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const { grid, words: placed, report } = await generateWordSearch(
+        openMask(14, 14),
+        words('SEASTAR', 'TREATS'),
+        fakeSource('AERST').source,
+        { seed, directions: ['horizontal', 'vertical', 'diagonal-down', 'horizontal-reverse'], minWordLength: 3, maxWordLength: 6 }
+      );
+      const placedWords = placed.filter(word => word.placed);
+      const occurrences = findAllOccurrences(grid, placedWords.map(word => word.word));
+
+      expect(placedWords.some(word => word.generated)).toBe(true);
+      expect(report.uniqueVerified).toBe(true);
+      expect(report.ambiguousWords).toEqual([]);
+      for (const word of placedWords) {
+        // A palindrome reads both ways over the same cells, which is still once
+        const cellSets = new Set(occurrences.get(word.word)!.map(({ row, col, direction }) =>
+          [...word.word].map((_, i) => JSON.stringify(getCellPosition(row, col, direction, i))).sort().join()));
+        expect(cellSets.size, word.word).toBe(1);
+      }
+    }
+  });
+
+  it('reports a blocked word spelled by word letters alone', async () => {
+    const { report, grid } = await generateWordSearch(mask(['#########']), words('SCATTER'), null, {
+      seed: 1,
+      directions: ['horizontal'],
+      blockedWords: ['cat', 'ox']
+    });
+
+    expect(report.blockedWordsRemaining).toEqual(['CAT']);
+    expect(letters(grid)[0]).toContain('SCATTER');
+  });
+
+  it('asks for words the length of each free gap, longest first', async () => {
+    const { requests, source } = fakeSource();
+
+    await generateWordSearch(mask(['#####.', '......', '########']), [], source, {
+      seed: 1,
+      directions: ['horizontal'],
+      minWordLength: 3,
+      maxWordLength: 6,
+      targetCoverage: 1,
+      maxIterations: 1
+    });
+
+    // The row of 8 is asked for as a 6 (the rest is too short for a word)
+    expect(requests.map(({ minLength, maxLength, count }) => ({ minLength, maxLength, count }))).toEqual([
+      { minLength: 6, maxLength: 6, count: 1 },
+      { minLength: 5, maxLength: 5, count: 1 }
+    ]);
+  });
+
+  it('reports a word source that fails apart from one that runs dry', async () => {
+    const failing: WordSource = async () => { throw new Error('Quota exceeded'); };
+    const dry: WordSource = async () => [];
+
+    const failed = await generateWordSearch(openMask(8, 8), words('CAT'), failing, { seed: 1 });
+    const ranDry = await generateWordSearch(openMask(8, 8), words('CAT'), dry, { seed: 1 });
+
+    expect(failed.report.coverageStopReason).toBe('source-error');
+    expect(failed.report.sourceError).toBe('Quota exceeded');
+    expect(ranDry.report.coverageStopReason).toBe('source-exhausted');
+    expect(ranDry.report.sourceError).toBeNull();
+  });
+});
+
+describe('cleanFillerLetters', () => {
+  it('re-rolls filler that spells a blocked word', () => {
+    // Cells outside the mask get filler straight away
+    const spelled = [...'CAT'];
+    const grid = createGrid(mask(['...']), () => spelled.shift() ?? 'X');
+    const random = createRandom(1);
+    const filler = () => random.pick(['X', 'Y', 'Z']);
+
+    const result = cleanFillerLetters(grid, [], ['CAT'], filler, random);
+
+    expect(result.rerolledCells).toBeGreaterThan(0);
+    expect(result.blockedWordsRemaining).toEqual([]);
+    expect(findAllOccurrences(grid, ['CAT']).get('CAT') ?? []).toEqual([]);
+  });
+
+  it('re-rolls filler that repeats a hidden word', () => {
+    const grid = createGrid(mask(['######']), () => '');
+    const word = toWordSearchWord({ word: 'SUN', hint: '' }, 'sun');
+    Object.assign(word, { placed: true, startRow: 0, startCol: 0, direction: 'horizontal' });
+    [...'SUNSUN'].forEach((letter, col) => {
+      grid[0][col] = { letter, isWordLetter: col < 3, wordIds: col < 3 ? ['sun'] : [] };
+    });
+    const random = createRandom(2);
+
+    const result = cleanFillerLetters(grid, [word], [], () => random.pick(['X', 'Y', 'Z']), random);
+
+    expect(result.unique).toBe(true);
+    expect(letters(grid)[0].slice(0, 3)).toBe('SUN');
+    expect(letters(grid)[0].slice(3)).not.toBe('SUN');
+  });
+});
@@ -0,0 +1,1418 @@
+import type { WordWithHint } from './gemini';
+import { createRandom, randomSeed, type Random } from './random';
+
+// Word search placement engine.
+//
+// Everything in here works on plain arrays: no React, canvas or store imports,
+// so the engine can run on the main thread, in a worker or under Node. The
+// caller provides the mask (which cells may hold word letters), the starting
+// word list and a word source used to top the puzzle up with extra words.
+// All randomness comes from a seeded generator, so the same seed, mask and
+// word list always produce the same grid.
+
+// Forward directions read left-to-right (or top-to-bottom for vertical); each
+// `-reverse` variant is the same line read backwards
+export type WordDirection =
+  | 'horizontal'
+  | 'vertical'
+  | 'diagonal-down'
+  | 'diagonal-up'
+  | 'horizontal-reverse'
+  | 'vertical-reverse'
+  | 'diagonal-down-reverse'
+  | 'diagonal-up-reverse';
+
+// Which side of the mask a word is hidden in. Dual-region puzzles put a
+// second word list in the cells outside the mask instead of filler.
+export type MaskRegion = 'shape' | 'background';
+
+// Words handed to the engine; an id is assigned when the caller has none
+export type WordInput = WordWithHint & { id?: string; region?: MaskRegion };
+
+export interface WordSearchWord extends WordWithHint {
+  id: string; // Unique within a puzzle; recorded in every cell the word covers
+  placed: boolean;
+  startRow: number;
+  startCol: number;
+  direction: WordDirection;
+  generated?: boolean; // Added by the word source rather than the caller
+  region?: MaskRegion; // Only read in dual-region puzzles; 'shape' when absent
+}
+
+export interface GridCell {
+  letter: string;
+  isWordLetter: boolean;
+  wordIds: string[];
+  region?: MaskRegion; // Set in dual-region puzzles
+  luminance?: number; // 0 (black) to 1 (white): the source image under this cell, added by the caller
+  color?: [number, number, number]; // Average RGB of the source image under this cell, added by the caller
+}
+
+export interface PlacementPosition {
+  row: number;
+  col: number;
+  direction: WordDirection;
+}
+
+// What the engine asks the word source for. `seed` is derived from the puzzle
+// seed so deterministic sources return the same words every run.
+export interface WordRequest {
+  count: number;
+  seed: string;
+  minLength: number;
+  maxLength: number; // Equal to minLength when a gap needs an exact length
+  region: MaskRegion; // Where the words will go, so each region can have its own theme
+}
+
+// Supplies extra words while the engine fills the mask
+export type WordSource = (request: WordRequest) => Promise<WordWithHint[]>;
+
+// 'random' places each word once at a random valid position; 'backtracking'
+// revisits earlier choices to fit as many of the caller's words as possible
+export type PlacementMode = 'random' | 'backtracking';
+
+// Why a required word ended up without a position
+export type UnplacedReason = 'too-long' | 'conflict';
+
+export interface UnplacedWord {
+  id: string;
+  word: string;
+  reason: UnplacedReason;
+}
+
+// Constraints every candidate position has to satisfy
+export interface PlacementRules {
+  directions: WordDirection[];
+  allowOverlap: boolean; // Whether words may share matching letters
+}
+
+export type GenerationPhase = 'grid' | 'placing' | 'generating' | 'filling' | 'verifying';
+
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  step: string;
+  grid: GridCell[][];
+  words: WordSearchWord[];
+}
+
+export interface GenerationOptions {
+  seed?: number; // Puzzle seed; a fresh one is picked when omitted
+  directions?: WordDirection[]; // Directions words may run in; forward only by default
+  targetCoverage?: number; // 0-1 share of available cells to cover with word letters
+  batchSize?: number; // Fewest words requested from the word source per iteration
+  maxIterations?: number; // Safety cap on word source round trips
+  minWordLength?: number; // Generated words shorter than this are skipped
+  maxWordLength?: number; // Generated words longer than this are skipped
+  allowOverlap?: boolean;
+  overlapWeight?: number; // 0 picks positions uniformly; higher values favour crossing existing words
+  fillerBias?: number; // 0-1 chance a filler letter is drawn from the hidden words' letters
+  placementMode?: PlacementMode;
+  verifyUnique?: boolean; // Re-roll filler until every word reads exactly once
+  blockedWords?: string[]; // Words filler letters must never spell, in any direction
+  searchNodeBudget?: number; // Positions the backtracking search may try before keeping its best so far
+  dualRegion?: boolean; // Cells outside the mask hold 'background' words rather than filler
+  onProgress?: (progress: GenerationProgress) => void | Promise<void>;
+}
+
+// Why the word source stopped being asked for more words
+export type CoverageStopReason =
+  | 'target-reached'
+  | 'no-room' // No free stretch fits the shortest word and overlaps are off
+  | 'source-exhausted' // Several batches in a row had nothing new or nothing that fit
+  | 'iteration-limit'
+  | 'ambiguous-words' // Words that read twice were dropped after the last top-up
+  | 'source-error' // The word source threw; the message is in sourceError
+  | 'no-source';
+
+export interface GenerationReport {
+  seed: number;
+  totalCells: number;
+  availableCells: number;
+  wordLetters: number;
+  fillerLetters: number;
+  coverage: number; // Share of available cells holding word letters
+  targetCoverage: number;
+  coverageStopReason: CoverageStopReason;
+  sourceError: string | null; // Message from a word source that threw
+  wordToFillerRatio: number | null; // Word letters per filler letter; null without filler
+  placedWords: number;
+  totalWords: number;
+  unplacedWords: UnplacedWord[];
+  overlapCount: number; // Cells shared by more than one word, counted once per extra word
+  searchBudgetReached: boolean; // Backtracking gave up before proving its result optimal
+  uniqueVerified: boolean; // Every placed word appears exactly once in the final grid
+  ambiguousWords: string[]; // Words still readable more than once, e.g. inside a longer word
+  blockedWordsRemaining: string[];
+  rerolledCells: number;
+}
+
+export interface GenerationResult {
+  grid: GridCell[][];
+  words: WordSearchWord[];
+  report: GenerationReport;
+}
+
+export const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export const FORWARD_DIRECTIONS: WordDirection[] = ['horizontal', 'vertical', 'diagonal-down', 'diagonal-up'];
+
+export const DIRECTIONS: WordDirection[] = [
+  ...FORWARD_DIRECTIONS,
+  'horizontal-reverse',
+  'vertical-reverse',
+  'diagonal-down-reverse',
+  'diagonal-up-reverse'
+];
+
+// Row/column step taken for each letter of a word
+const DIRECTION_VECTORS: Record<WordDirection, { dRow: number; dCol: number }> = {
+  'horizontal': { dRow: 0, dCol: 1 },
+  'vertical': { dRow: 1, dCol: 0 },
+  'diagonal-down': { dRow: 1, dCol: 1 },
+  'diagonal-up': { dRow: -1, dCol: 1 },
+  'horizontal-reverse': { dRow: 0, dCol: -1 },
+  'vertical-reverse': { dRow: -1, dCol: 0 },
+  'diagonal-down-reverse': { dRow: -1, dCol: -1 },
+  'diagonal-up-reverse': { dRow: 1, dCol: -1 },
+};
+
+export const DIRECTION_ARROWS: Record<WordDirection, string> = {
+  'horizontal': '→',
+  'vertical': '↓',
+  'diagonal-down': '↘',
+  'diagonal-up': '↗',
+  'horizontal-reverse': '←',
+  'vertical-reverse': '↑',
+  'diagonal-down-reverse': '↖',
+  'diagonal-up-reverse': '↙',
+};
+
+export const MASK_REGIONS: MaskRegion[] = ['shape', 'background'];
+
+export const MASK_REGION_LABELS: Record<MaskRegion, string> = {
+  shape: 'Shape',
+  background: 'Background',
+};
+
+const DEFAULT_RULES: PlacementRules = {
+  directions: FORWARD_DIRECTIONS,
+  allowOverlap: true,
+};
+
+const DEFAULT_OPTIONS = {
+  ...DEFAULT_RULES,
+  targetCoverage: 0.85,
+  batchSize: 5,
+  maxIterations: 200,
+  minWordLength: 3,
+  maxWordLength: 12,
+  overlapWeight: 0,
+  fillerBias: 0,
+  placementMode: 'random' as PlacementMode,
+  searchNodeBudget: 150_000,
+  verifyUnique: true,
+  blockedWords: [] as string[],
+  dualRegion: false,
+};
+
+type ResolvedOptions = typeof DEFAULT_OPTIONS & GenerationOptions;
+
+function randomLetter(random: Random): string {
+  return LETTERS[random.int(LETTERS.length)];
+}
+
+// Filler letter generator. With a bias, some letters are copied from the
+// hidden words so the grid is full of near-misses; otherwise uniform A-Z.
+export function createFillerPicker(random: Random, words: string[], bias = 0): () => string {
+  const pool = words.join('').toUpperCase().replace(/[^A-Z]/g, '');
+  return () => (pool && bias > 0 && random.next() < bias)
+    ? pool[random.int(pool.length)]
+    : randomLetter(random);
+}
+
+function snapshotGrid(grid: GridCell[][]): GridCell[][] {
+  return grid.map(row => [...row]);
+}
+
+export function toWordSearchWord(word: WordInput, id: string): WordSearchWord {
+  return {
+    ...word,
+    id,
+    placed: false,
+    startRow: 0,
+    startCol: 0,
+    direction: 'horizontal'
+  };
+}
+
+// Cell covered by the letter at `index` of a word starting at `row`/`col`
+export function getCellPosition(row: number, col: number, direction: WordDirection, index: number): { row: number; col: number } {
+  const { dRow, dCol } = DIRECTION_VECTORS[direction];
+  return { row: row + dRow * index, col: col + dCol * index };
+}
+
+// Every cell a placed word covers, in reading order
+export function getWordCells(word: WordSearchWord): { row: number; col: number }[] {
+  if (!word.placed) return [];
+  return Array.from(word.word, (_, i) => getCellPosition(word.startRow, word.startCol, word.direction, i));
+}
+
+// Build the starting grid: cells outside the mask get a random letter straight
+// away since they can never hold a word
+export function createGrid(mask: boolean[][], fillerLetter: () => string): GridCell[][] {
+  return mask.map(row =>
+    row.map(isAvailable => ({
+      letter: isAvailable ? '' : fillerLetter(),
+      isWordLetter: false,
+      wordIds: []
+    }))
+  );
+}
+
+// Check if word can be placed at position with proper overlap validation
+export function canPlaceWord(
+  word: string,
+  startRow: number,
+  startCol: number,
+  direction: WordDirection,
+  grid: GridCell[][],
+  mask: boolean[][],
+  allowOverlap = true
+): boolean {
+  const gridHeight = grid.length;
+  const gridWidth = grid[0].length;
+
+  for (let i = 0; i < word.length; i++) {
+    const { row, col } = getCellPosition(startRow, startCol, direction, i);
+
+    if (row < 0 || row >= gridHeight || col < 0 || col >= gridWidth) {
+      return false;
+    }
+
+    if (!mask[row][col]) {
+      return false;
+    }
+
+    // Overlaps are fine as long as the letters agree
+    const existingLetter = grid[row][col].letter;
+    if (existingLetter && (!allowOverlap || existingLetter !== word[i].toUpperCase())) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export function placeWordInGrid(
+  word: WordSearchWord,
+  position: PlacementPosition,
+  grid: GridCell[][],
+  positionIndex?: PlacementIndex
+): void {
+  for (let i = 0; i < word.word.length; i++) {
+    const { row, col } = getCellPosition(position.row, position.col, position.direction, i);
+    const letter = word.word[i].toUpperCase();
+
+    // Only place the letter if the position is empty OR if it matches (overlap)
+    const existingLetter = grid[row][col].letter;
+    if (!existingLetter || existingLetter === letter) {
+      grid[row][col].letter = letter;
+      grid[row][col].isWordLetter = true;
+      positionIndex?.setLetter(row, col, letter);
+      // Track every word using this cell (more than one means an overlap)
+      if (!grid[row][col].wordIds.includes(word.id)) {
+        grid[row][col].wordIds.push(word.id);
+      }
+    }
+  }
+
+  word.placed = true;
+  word.startRow = position.row;
+  word.startCol = position.col;
+  word.direction = position.direction;
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  word: string | null; // Text ending at this node
+}
+
+// Every place each of `texts` can be read in the grid, in any of the eight
+// directions, keyed by upper-cased text. Walks the grid once against a trie
+// rather than once per word.
+export function findAllOccurrences(grid: GridCell[][], texts: string[]): Map<string, PlacementPosition[]> {
+  const root: TrieNode = { children: new Map(), word: null };
+  const occurrences = new Map<string, PlacementPosition[]>();
+  for (const text of texts) {
+    const target = text.toUpperCase();
+    if (!target || occurrences.has(target)) continue;
+    occurrences.set(target, []);
+
+    let node = root;
+    for (const letter of target) {
+      let child = node.children.get(letter);
+      if (!child) {
+        child = { children: new Map(), word: null };
+        node.children.set(letter, child);
+      }
+      node = child;
+    }
+    node.word = target;
+  }
+
+  const gridHeight = grid.length;
+  const gridWidth = grid[0]?.length ?? 0;
+
+  for (let row = 0; row < gridHeight; row++) {
+    for (let col = 0; col < gridWidth; col++) {
+      const first = root.children.get(grid[row][col].letter);
+      if (!first) continue;
+
+      for (const direction of DIRECTIONS) {
+        const { dRow, dCol } = DIRECTION_VECTORS[direction];
+        let node: TrieNode | undefined = first;
+        for (let r = row, c = col; node; ) {
+          if (node.word) occurrences.get(node.word)!.push({ row, col, direction });
+          r += dRow;
+          c += dCol;
+          if (r < 0 || r >= gridHeight || c < 0 || c >= gridWidth) break;
+          node = node.children.get(grid[r][c].letter);
+        }
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+function readsAt(grid: GridCell[][], text: string, position: PlacementPosition): boolean {
+  return occurrenceCells(text.length, position).every(({ row, col }, i) => grid[row][col].letter === text[i]);
+}
+
+function occurrenceKey(length: number, position: PlacementPosition): string {
+  // Sorted so a palindrome read backwards over its own cells counts as the same occurrence
+  return occurrenceCells(length, position)
+    .map(({ row, col }) => `${row},${col}`)
+    .sort()
+    .join('|');
+}
+
+function occurrenceCells(length: number, position: PlacementPosition): { row: number; col: number }[] {
+  return Array.from({ length }, (_, i) => getCellPosition(position.row, position.col, position.direction, i));
+}
+
+export interface FillerCleanupResult {
+  unique: boolean; // No hidden word can be read anywhere but its own position
+  ambiguousWords: string[];
+  blockedWordsRemaining: string[]; // Blocked words spelled by word letters alone
+  rerolledCells: number;
+}
+
+// Re-roll filler letters until no hidden word can be read anywhere other than
+// where it was placed and no blocked word can be read at all, in any
+// direction and anywhere in the grid. Both checks run in the same loop since
+// fixing one can break the other. Runs made only of word letters can't be
+// changed and are reported instead.
+export function cleanFillerLetters(
+  grid: GridCell[][],
+  words: WordSearchWord[],
+  blockedWords: string[],
+  fillerLetter: () => string,
+  random: Random,
+  maxRounds = 50
+): FillerCleanupResult {
+  const placedWords = words.filter(word => word.placed);
+  let rerolledCells = 0;
+  let ambiguous = new Set<string>();
+  let blocked = new Set<string>();
+  let settled = false;
+
+  // Returns false when the run has no filler letter to change
+  const rerollRun = (length: number, occurrence: PlacementPosition): boolean => {
+    const fillerCells = occurrenceCells(length, occurrence).filter(({ row, col }) => !grid[row][col].isWordLetter);
+    if (fillerCells.length === 0) return false;
+
+    const { row, col } = random.pick(fillerCells);
+    grid[row][col].letter = fillerLetter();
+    rerolledCells++;
+    return true;
+  };
+
+  for (let round = 0; round < maxRounds; round++) {
+    const rerolledBefore = rerolledCells;
+    ambiguous = new Set<string>();
+    blocked = new Set<string>();
+
+    // Found up front, so skip any that an earlier re-roll already broke
+    const occurrences = findAllOccurrences(grid, [...placedWords.map(word => word.word), ...blockedWords]);
+
+    for (const word of placedWords) {
+      const text = word.word.toUpperCase();
+      const ownKey = occurrenceKey(text.length, { row: word.startRow, col: word.startCol, direction: word.direction });
+
+      for (const occurrence of occurrences.get(text) ?? []) {
+        if (occurrenceKey(text.length, occurrence) === ownKey || !readsAt(grid, text, occurrence)) continue;
+        if (!rerollRun(text.length, occurrence)) ambiguous.add(word.word);
+      }
+    }
+
+    for (const blockedWord of blockedWords) {
+      for (const occurrence of occurrences.get(blockedWord) ?? []) {
+        if (!readsAt(grid, blockedWord, occurrence)) continue;
+        if (!rerollRun(blockedWord.length, occurrence)) blocked.add(blockedWord);
+      }
+    }
+
+    if (rerolledCells === rerolledBefore) {
+      settled = true;
+      break;
+    }
+  }
+
+  return {
+    unique: settled && ambiguous.size === 0,
+    ambiguousWords: [...ambiguous],
+    blockedWordsRemaining: [...blocked],
+    rerolledCells
+  };
+}
+
+// Every direction reads along the same runs as its forward counterpart, just backwards
+function isReverse(direction: WordDirection): boolean {
+  return direction.endsWith('-reverse');
+}
+
+function forwardOf(direction: WordDirection): WordDirection {
+  return direction.replace('-reverse', '') as WordDirection;
+}
+
+// A maximal line of available cells along one forward direction
+interface PlacementRun {
+  cells: { row: number; col: number }[];
+  letters: Map<number, string>; // Letters already in the run, keyed by index
+  slots: string[]; // Same letters by index, '' where empty
+}
+
+// Candidate search over precomputed runs. Mask cells are split into maximal
+// runs per direction once; each run keeps the letters placed in it, so a
+// lookup only visits runs long enough for the word and the offsets next to
+// letters already there. Keep it in sync with the grid via setLetter.
+export interface PlacementIndex {
+  findPositions: (word: string, allowOverlap: boolean) => PlacementPosition[];
+  // Weighted like findPositions + a (1 + crossings) ^ overlapWeight draw,
+  // without listing every candidate
+  pickPosition: (word: string, allowOverlap: boolean, random: Random, overlapWeight: number) => PlacementPosition | null;
+  setLetter: (row: number, col: number, letter: string) => void; // '' clears
+  // Count of maximal empty stretches by length, once per line whichever way it's read
+  freeGaps: () => Map<number, number>;
+  // Positions that exactly fill a maximal empty stretch of `length` cells
+  findGapPositions: (length: number) => PlacementPosition[];
+}
+
+export function createPlacementIndex(
+  mask: boolean[][],
+  directions: WordDirection[],
+  grid?: GridCell[][]
+): PlacementIndex {
+  const gridHeight = mask.length;
+  const gridWidth = mask[0]?.length ?? 0;
+  const isOpen = (row: number, col: number) =>
+    row >= 0 && row < gridHeight && col >= 0 && col < gridWidth && mask[row][col];
+
+  // Runs per forward direction, longest first so short ones can be skipped
+  const runs = new Map<WordDirection, PlacementRun[]>();
+  // Which runs each cell belongs to, for setLetter
+  const cellRuns: { run: PlacementRun; index: number }[][] = Array.from({ length: gridHeight * gridWidth }, () => []);
+
+  for (const direction of new Set(directions.map(forwardOf))) {
+    const { dRow, dCol } = DIRECTION_VECTORS[direction];
+    const directionRuns: PlacementRun[] = [];
+
+    for (let row = 0; row < gridHeight; row++) {
+      for (let col = 0; col < gridWidth; col++) {
+        // Only start at the first open cell of a line
+        if (!isOpen(row, col) || isOpen(row - dRow, col - dCol)) continue;
+
+        const run: PlacementRun = { cells: [], letters: new Map(), slots: [] };
+        for (let r = row, c = col; isOpen(r, c); r += dRow, c += dCol) {
+          cellRuns[r * gridWidth + c].push({ run, index: run.cells.length });
+          run.cells.push({ row: r, col: c });
+          run.slots.push('');
+        }
+        directionRuns.push(run);
+      }
+    }
+
+    runs.set(direction, directionRuns.sort((a, b) => b.cells.length - a.cells.length));
+  }
+
+  const setLetter = (row: number, col: number, letter: string) => {
+    for (const { run, index } of cellRuns[row * gridWidth + col] ?? []) {
+      if (letter) run.letters.set(index, letter);
+      else run.letters.delete(index);
+      run.slots[index] = letter;
+    }
+  };
+
+  if (grid) {
+    for (let row = 0; row < gridHeight; row++) {
+      for (let col = 0; col < gridWidth; col++) {
+        if (mask[row][col] && grid[row][col].letter) setLetter(row, col, grid[row][col].letter);
+      }
+    }
+  }
+
+  // Scratch space for scanRun, grown to the longest run as needed
+  let crossingsAt = new Int16Array(0);
+  let touchedOffsets = new Int32Array(0);
+  let nextLetter = new Int32Array(0);
+
+  // Visit each offset of `text` along `run` that overlaps a placed letter,
+  // with the number of letters it shares or -1 when one clashes. Offsets not
+  // visited fit with no crossings. Returns how many offsets were visited.
+  const scanRun = (
+    run: PlacementRun,
+    text: string,
+    allowOverlap: boolean,
+    visit: (offset: number, crossings: number) => void
+  ): number => {
+    const offsets = run.cells.length - text.length + 1;
+    if (run.letters.size === 0) return 0;
+    if (crossingsAt.length < offsets) {
+      crossingsAt = new Int16Array(run.cells.length);
+      touchedOffsets = new Int32Array(run.cells.length);
+      nextLetter = new Int32Array(run.cells.length + 1);
+    }
+
+    // Crowded run: walk the offsets instead, jumping between letters and
+    // stopping at the first clash
+    if (run.letters.size * text.length > run.cells.length) {
+      const { slots } = run;
+      nextLetter[slots.length] = slots.length;
+      for (let index = slots.length - 1; index >= 0; index--) {
+        nextLetter[index] = slots[index] ? index : nextLetter[index + 1];
+      }
+
+      let touchedCount = 0;
+      for (let offset = 0; offset < offsets; offset++) {
+        const end = offset + text.length;
+        let index = nextLetter[offset];
+        if (index >= end) continue;
+
+        let crossings = 0;
+        for (; index < end; index = nextLetter[index + 1]) {
+          if (!allowOverlap || text[index - offset] !== slots[index]) {
+            crossings = -1;
+            break;
+          }
+          crossings++;
+        }
+        touchedCount++;
+        visit(offset, crossings);
+      }
+      return touchedCount;
+    }
+
+    // crossingsAt holds crossings + 1 so that 0 means untouched
+    let touchedCount = 0;
+    for (const [index, letter] of run.letters) {
+      const first = Math.max(0, index - text.length + 1);
+      const last = Math.min(index, offsets - 1);
+      for (let offset = first; offset <= last; offset++) {
+        const current = crossingsAt[offset];
+        if (current === -1) continue;
+        if (current === 0) touchedOffsets[touchedCount++] = offset;
+        crossingsAt[offset] = allowOverlap && text[index - offset] === letter ? (current || 1) + 1 : -1;
+      }
+    }
+
+    for (let i = 0; i < touchedCount; i++) {
+      const offset = touchedOffsets[i];
+      visit(offset, crossingsAt[offset] === -1 ? -1 : crossingsAt[offset] - 1);
+      crossingsAt[offset] = 0;
+    }
+    return touchedCount;
+  };
+
+  // Every (direction, run) long enough for the word, with the word's letters
+  // in reading order along the run
+  const forEachRun = (word: string, visit: (run: PlacementRun, direction: WordDirection, text: string) => void) => {
+    const upper = word.toUpperCase();
+    for (const direction of directions) {
+      // A reversed word reads forwards along the same run
+      const text = isReverse(direction) ? [...upper].reverse().join('') : upper;
+      for (const run of runs.get(forwardOf(direction)) ?? []) {
+        if (run.cells.length < text.length) break;
+        visit(run, direction, text);
+      }
+    }
+  };
+
+  const toPosition = (run: PlacementRun, direction: WordDirection, length: number, offset: number): PlacementPosition => {
+    const start = run.cells[isReverse(direction) ? offset + length - 1 : offset];
+    return { row: start.row, col: start.col, direction };
+  };
+
+  const findPositions = (word: string, allowOverlap: boolean): PlacementPosition[] => {
+    const positions: PlacementPosition[] = [];
+    forEachRun(word, (run, direction, text) => {
+      const blocked = new Set<number>();
+      scanRun(run, text, allowOverlap, (offset, crossings) => {
+        if (crossings === -1) blocked.add(offset);
+      });
+      for (let offset = 0; offset <= run.cells.length - text.length; offset++) {
+        if (!blocked.has(offset)) positions.push(toPosition(run, direction, text.length, offset));
+      }
+    });
+    return positions;
+  };
+
+  const pickPosition = (
+    word: string,
+    allowOverlap: boolean,
+    random: Random,
+    overlapWeight: number
+  ): PlacementPosition | null => {
+    const weightOf = (crossings: number) => (1 + crossings) ** Math.max(0, overlapWeight);
+
+    // First pass: total weight per run. Untouched offsets all weigh 1.
+    const scanned: { run: PlacementRun; direction: WordDirection; text: string; total: number }[] = [];
+    let total = 0;
+    forEachRun(word, (run, direction, text) => {
+      let runTotal = run.cells.length - text.length + 1;
+      scanRun(run, text, allowOverlap, (_, crossings) => {
+        runTotal += crossings === -1 ? -1 : weightOf(crossings) - 1;
+      });
+      if (runTotal > 0) {
+        scanned.push({ run, direction, text, total: runTotal });
+        total += runTotal;
+      }
+    });
+    if (total === 0) return null;
+
+    let target = random.next() * total;
+    const chosen = scanned.find(entry => {
+      if (target < entry.total) return true;
+      target -= entry.total;
+      return false;
+    }) ?? scanned[scanned.length - 1];
+
+    // Second pass over the chosen run only, walking offsets in order
+    const { run, direction, text } = chosen;
+    const touched = new Map<number, number>();
+    scanRun(run, text, allowOverlap, (offset, crossings) => touched.set(offset, crossings));
+    let last: number | null = null;
+    for (let offset = 0; offset <= run.cells.length - text.length; offset++) {
+      const crossings = touched.get(offset) ?? 0;
+      if (crossings === -1) continue;
+      last = offset;
+      target -= weightOf(crossings);
+      if (target < 0) return toPosition(run, direction, text.length, offset);
+    }
+    // Floating point left a sliver over; take the run's last candidate
+    return last === null ? null : toPosition(run, direction, text.length, last);
+  };
+
+  const freeGaps = (): Map<number, number> => {
+    const gaps = new Map<number, number>();
+    const addGap = (length: number) => {
+      if (length > 0) gaps.set(length, (gaps.get(length) ?? 0) + 1);
+    };
+
+    for (const directionRuns of runs.values()) {
+      for (const run of directionRuns) {
+        let gap = 0;
+        for (let index = 0; index < run.cells.length; index++) {
+          if (run.letters.has(index)) {
+            addGap(gap);
+            gap = 0;
+          } else {
+            gap++;
+          }
+        }
+        addGap(gap);
+      }
+    }
+
+    return gaps;
+  };
+
+  const findGapPositions = (length: number): PlacementPosition[] => {
+    const positions: PlacementPosition[] = [];
+    for (const direction of directions) {
+      for (const run of runs.get(forwardOf(direction)) ?? []) {
+        if (run.cells.length < length) break;
+
+        let gap = 0;
+        for (let index = 0; index <= run.cells.length; index++) {
+          if (index < run.cells.length && !run.slots[index]) {
+            gap++;
+            continue;
+          }
+          if (gap === length) positions.push(toPosition(run, direction, length, index - length));
+          gap = 0;
+        }
+      }
+    }
+    return positions;
+  };
+
+  return { findPositions, pickPosition, setLetter, freeGaps, findGapPositions };
+}
+
+// One-off lookup. Anything placing several words should keep a
+// PlacementIndex around instead of rebuilding it each time.
+export function findAllValidPositionsForWord(
+  word: string,
+  grid: GridCell[][],
+  mask: boolean[][],
+  rules: PlacementRules = DEFAULT_RULES
+): PlacementPosition[] {
+  return createPlacementIndex(mask, rules.directions, grid).findPositions(word, rules.allowOverlap);
+}
+
+// Letters a position would share with words already in the grid
+function countCrossings(word: string, position: PlacementPosition, grid: GridCell[][]): number {
+  let crossings = 0;
+  for (let i = 0; i < word.length; i++) {
+    const { row, col } = getCellPosition(position.row, position.col, position.direction, i);
+    if (grid[row][col].letter) crossings++;
+  }
+  return crossings;
+}
+
+// Try the most overlapping positions first, keeping the shuffled order for ties
+function orderPositions(
+  word: string,
+  positions: PlacementPosition[],
+  grid: GridCell[][],
+  random: Random,
+  overlapWeight: number
+): PlacementPosition[] {
+  const shuffled = random.shuffle(positions);
+  if (overlapWeight <= 0) return shuffled;
+
+  const crossings = new Map(shuffled.map(position => [position, countCrossings(word, position, grid)]));
+  return shuffled.sort((a, b) => crossings.get(b)! - crossings.get(a)!);
+}
+
+function countOverlaps(words: WordSearchWord[]): number {
+  const coverage = new Map<string, number>();
+  for (const word of words) {
+    for (const { row, col } of getWordCells(word)) {
+      const key = `${row},${col}`;
+      coverage.set(key, (coverage.get(key) ?? 0) + 1);
+    }
+  }
+  return [...coverage.values()].reduce((sum, count) => sum + Math.max(0, count - 1), 0);
+}
+
+function countAvailableCells(mask: boolean[][]): number {
+  return mask.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+}
+
+function countWordLetters(grid: GridCell[][], mask: boolean[][]): number {
+  return grid.reduce((sum, row, rowIndex) =>
+    sum + row.filter((cell, colIndex) => cell.isWordLetter && mask[rowIndex][colIndex]).length, 0);
+}
+
+function invertMask(mask: boolean[][]): boolean[][] {
+  return mask.map(row => row.map(isAvailable => !isAvailable));
+}
+
+// Longest first for better placement. Ties are broken alphabetically so the
+// list order never changes the result.
+function sortForPlacement(words: WordSearchWord[]): WordSearchWord[] {
+  return [...words].sort((a, b) => b.word.length - a.word.length || a.word.localeCompare(b.word));
+}
+
+// Branch-and-bound search for the largest subset of `words` that fits
+// together. Works on a scratch copy of the grid and returns one position (or
+// null) per word, in the order given. The greedy pass seeds the best result
+// so there is always an answer when the budget runs out. The budget counts
+// positions tried rather than time, so the same seed gives the same grid
+// however fast the machine is.
+function solvePlacements(
+  words: WordSearchWord[],
+  grid: GridCell[][],
+  mask: boolean[][],
+  rules: PlacementRules,
+  random: Random,
+  overlapWeight: number,
+  nodeBudget: number
+): { positions: (PlacementPosition | null)[]; budgetReached: boolean } {
+  const scratch = grid.map(row => row.map(cell => ({ ...cell, wordIds: [...cell.wordIds] })));
+  const usage = grid.map(row => row.map(() => 0));
+  const positionIndex = createPlacementIndex(mask, rules.directions, scratch);
+  let nodesLeft = nodeBudget;
+
+  const occupy = (word: string, position: PlacementPosition) => {
+    for (let i = 0; i < word.length; i++) {
+      const { row, col } = getCellPosition(position.row, position.col, position.direction, i);
+      scratch[row][col].letter = word[i].toUpperCase();
+      positionIndex.setLetter(row, col, scratch[row][col].letter);
+      usage[row][col]++;
+    }
+  };
+
+  const release = (word: string, position: PlacementPosition) => {
+    for (let i = 0; i < word.length; i++) {
+      const { row, col } = getCellPosition(position.row, position.col, position.direction, i);
+      usage[row][col]--;
+      if (usage[row][col] === 0) {
+        scratch[row][col].letter = '';
+        positionIndex.setLetter(row, col, '');
+      }
+    }
+  };
+
+  const current: (PlacementPosition | null)[] = words.map(() => null);
+
+  // Greedy pass: same as random mode
+  for (let i = 0; i < words.length; i++) {
+    current[i] = positionIndex.pickPosition(words[i].word, rules.allowOverlap, random, overlapWeight);
+    if (current[i]) occupy(words[i].word, current[i]!);
+  }
+
+  let best = [...current];
+  let bestCount = best.filter(Boolean).length;
+  let budgetReached = false;
+
+  if (bestCount === words.length) {
+    return { positions: best, budgetReached };
+  }
+
+  // Undo the greedy pass before searching
+  current.forEach((position, i) => position && release(words[i].word, position));
+  current.fill(null);
+
+  const search = (index: number, placedCount: number): boolean => {
+    // Even placing every remaining word can't beat the best result
+    if (placedCount + (words.length - index) <= bestCount) return false;
+
+    if (index === words.length) {
+      best = [...current];
+      bestCount = placedCount;
+      return bestCount === words.length;
+    }
+
+    const word = words[index].word;
+    const positions = positionIndex.findPositions(word, rules.allowOverlap);
+    for (const position of orderPositions(word, positions, scratch, random, overlapWeight)) {
+      if (nodesLeft <= 0) {
+        budgetReached = true;
+        return true;
+      }
+      nodesLeft--;
+      occupy(word, position);
+      current[index] = position;
+      const done = search(index + 1, placedCount + 1);
+      release(word, position);
+      current[index] = null;
+      if (done) return true;
+    }
+
+    // Try leaving this word out
+    return search(index + 1, placedCount);
+  };
+
+  search(0, 0);
+  return { positions: best, budgetReached };
+}
+
+// A word that doesn't fit on an empty grid is too long for every run in the
+// mask; anything else was squeezed out by other words
+function explainUnplaced(word: string, emptyIndex: PlacementIndex): UnplacedReason {
+  return emptyIndex.findPositions(word, true).length > 0 ? 'conflict' : 'too-long';
+}
+
+// Phase 1: place the caller's words
+async function placeExistingWords(
+  grid: GridCell[][],
+  words: WordSearchWord[],
+  mask: boolean[][],
+  positionIndex: PlacementIndex,
+  options: ResolvedOptions,
+  random: Random,
+  onProgress: GenerationOptions['onProgress']
+): Promise<{ budgetReached: boolean }> {
+  const sortedWords = sortForPlacement(words);
+  let placedCount = 0;
+  let budgetReached = false;
+
+  // Backtracking decides every position up front; random mode picks as it goes
+  let solved: (PlacementPosition | null)[] | null = null;
+  if (options.placementMode === 'backtracking') {
+    await onProgress?.({
+      phase: 'placing',
+      step: `Searching for an arrangement of ${words.length} words...`,
+      grid: snapshotGrid(grid),
+      words: [...words]
+    });
+    const result = solvePlacements(sortedWords, grid, mask, options, random, options.overlapWeight, options.searchNodeBudget);
+    solved = result.positions;
+    budgetReached = result.budgetReached;
+  }
+
+  for (const [index, word] of sortedWords.entries()) {
+    const position = solved
+      ? solved[index]
+      : positionIndex.pickPosition(word.word, options.allowOverlap, random, options.overlapWeight);
+
+    if (!position) continue;
+
+    placeWordInGrid(word, position, grid, positionIndex);
+    placedCount++;
+
+    await onProgress?.({
+      phase: 'placing',
+      step: `Placing existing words... (${placedCount}/${words.length})`,
+      grid: snapshotGrid(grid),
+      words: [...words]
+    });
+  }
+
+  return { budgetReached };
+}
+
+// Stop after this many batches in a row that placed nothing or brought no
+// word the source hadn't already offered. A word length is no longer asked
+// for after this many requests for it in a row came back with nothing new.
+const MAX_STALLED_BATCHES = 3;
+
+// Most words asked for in one round trip, however much is left to cover
+const MAX_BATCH_SIZE = 100;
+
+// Whether `text` reads inside a hidden word, forwards or backwards, or one
+// reads inside it. Either way one of the two would show up twice in the grid,
+// and re-rolling filler can't fix that since both are word letters.
+function overlapsHiddenWord(text: string, hiddenWords: string[]): boolean {
+  const reversed = [...text].reverse().join('');
+  return hiddenWords.some(hidden => hidden.includes(text) || hidden.includes(reversed)
+    || text.includes(hidden) || reversed.includes(hidden));
+}
+
+// Word lengths to ask for, and how many of each, to fill the free gaps.
+// Gaps within the allowed lengths ask for words of exactly that length; longer
+// ones are split into several words. Scaled down to `budget` words, keeping at
+// least one per length so small pockets still get a chance.
+function planWordLengths(
+  gaps: Map<number, number>,
+  minWordLength: number,
+  maxWordLength: number,
+  budget: number
+): Map<number, number> {
+  const wanted = new Map<number, number>();
+  for (const [gap, count] of gaps) {
+    for (let remaining = gap; remaining >= minWordLength; ) {
+      const length = Math.min(remaining, maxWordLength);
+      wanted.set(length, (wanted.get(length) ?? 0) + count);
+      remaining -= length;
+    }
+  }
+
+  const total = [...wanted.values()].reduce((sum, count) => sum + count, 0);
+  const plan = new Map<number, number>();
+  // Longest first, so long gaps are used up before short words land in them
+  for (const length of [...wanted.keys()].sort((a, b) => b - a)) {
+    const count = wanted.get(length)!;
+    plan.set(length, total <= budget ? count : Math.max(1, Math.floor(count * budget / total)));
+  }
+  return plan;
+}
+
+function describePlan(plan: Map<number, number>): string {
+  return [...plan].map(([length, count]) => `${count} × ${length}`).join(', ');
+}
+
+interface GeneratedPlacementResult {
+  stopReason: CoverageStopReason;
+  sourceError: string | null;
+}
+
+// Phase 2: keep asking the word source for words until the target coverage is
+// reached or no free stretch is long enough for another word. Each round asks
+// for words of exactly the lengths of the gaps still open in the mask. New
+// words are appended to `words`, tagged with `region`.
+async function placeGeneratedWords(
+  grid: GridCell[][],
+  words: WordSearchWord[],
+  mask: boolean[][],
+  region: MaskRegion,
+  positionIndex: PlacementIndex,
+  wordSource: WordSource,
+  random: Random,
+  options: ResolvedOptions
+): Promise<GeneratedPlacementResult> {
+  const { targetCoverage, batchSize, maxIterations, minWordLength, maxWordLength, onProgress } = options;
+  const availableCells = countAvailableCells(mask);
+  const targetLetters = Math.ceil(availableCells * targetCoverage);
+  let wordLetters = countWordLetters(grid, mask);
+  let iteration = 0;
+  let stalledBatches = 0;
+  // Themed sources draw from short lists, so the same word can come back
+  const usedWords = new Set(words.map(word => word.word.toUpperCase()));
+  // Everything the source has returned, placed or not. Once a batch holds
+  // nothing new the source has run dry, however many gaps are left.
+  const offeredWords = new Set<string>();
+  // Requests in a row with nothing new, per exact length; 0 stands for the
+  // any-length requests that cross the last small gaps
+  const dryRequests = new Map<number, number>();
+  const isDry = (length: number) => (dryRequests.get(length) ?? 0) >= MAX_STALLED_BATCHES;
+  const hiddenWords = words.filter(word => word.placed).map(word => word.word.toUpperCase());
+  // Counts on from the highest id so far, since earlier rounds may have dropped words
+  let nextId = words.reduce((highest, word) => word.generated ? Math.max(highest, Number(word.id.replace('generated-', ''))) : highest, 0) + 1;
+
+  while (wordLetters < targetLetters) {
+    if (iteration >= maxIterations) return { stopReason: 'iteration-limit', sourceError: null };
+
+    const gaps = positionIndex.freeGaps();
+    const longestGap = Math.max(0, ...gaps.keys());
+    // Remaining pockets can still be covered by words crossing existing ones
+    const crossingOnly = longestGap < minWordLength;
+    if (crossingOnly && !options.allowOverlap) {
+      return { stopReason: 'no-room', sourceError: null };
+    }
+
+    // Enough words to close the gap to the target at the lengths the gaps need
+    const unscaled = planWordLengths(gaps, minWordLength, maxWordLength, Infinity);
+    const wantedWords = [...unscaled.values()].reduce((sum, count) => sum + count, 0);
+    const averageLength = crossingOnly
+      ? (minWordLength + maxWordLength) / 2
+      : [...unscaled].reduce((sum, [length, count]) => sum + length * count, 0) / wantedWords;
+    const budget = Math.min(MAX_BATCH_SIZE, Math.max(batchSize, Math.ceil((targetLetters - wordLetters) / averageLength)));
+    const plan = planWordLengths(gaps, minWordLength, maxWordLength, budget);
+    for (const length of plan.keys()) {
+      if (isDry(length)) plan.delete(length);
+    }
+    if (crossingOnly ? isDry(0) : plan.size === 0) {
+      return { stopReason: 'source-exhausted', sourceError: null };
+    }
+    const requested = crossingOnly ? budget : [...plan.values()].reduce((sum, count) => sum + count, 0);
+    const progressEvery = Math.max(2, Math.ceil(requested / 4));
+    iteration++;
+
+    await onProgress?.({
+      phase: 'generating',
+      step: crossingOnly
+        ? `Iteration ${iteration}: Generating ${budget} words to cross the last small gaps...`
+        : `Iteration ${iteration}: Generating words for free gaps (${describePlan(plan)} letters)...`,
+      grid: snapshotGrid(grid),
+      words: [...words]
+    });
+
+    const newWords: WordWithHint[] = [];
+    let newThisIteration = 0;
+    const fetchWords = async (key: number, count: number, minLength: number, maxLength: number) => {
+      const batch = await wordSource({ count, seed: random.deriveSeed(), minLength, maxLength, region });
+      const offeredBefore = offeredWords.size;
+      batch.forEach(word => offeredWords.add(word.word.toUpperCase()));
+      const fresh = offeredWords.size - offeredBefore;
+      dryRequests.set(key, fresh === 0 ? (dryRequests.get(key) ?? 0) + 1 : 0);
+      newThisIteration += fresh;
+      newWords.push(...batch);
+    };
+    try {
+      if (crossingOnly) {
+        await fetchWords(0, budget, minWordLength, maxWordLength);
+      }
+      for (const [length, count] of plan) {
+        await fetchWords(length, count, length, length);
+      }
+    } catch (error) {
+      // A failing source isn't one that ran dry; the caller needs to see why
+      return { stopReason: 'source-error', sourceError: error instanceof Error ? error.message : String(error) };
+    }
+
+    // Gaps a word fills exactly, found once per length this round. Later
+    // placements may have used some, so picks are re-checked and stale ones
+    // dropped as they turn up.
+    const gapPositions = new Map<number, PlacementPosition[]>();
+    const pickTightFit = (text: string): PlacementPosition | null => {
+      if (!gapPositions.has(text.length)) gapPositions.set(text.length, positionIndex.findGapPositions(text.length));
+      const candidates = gapPositions.get(text.length)!;
+      while (candidates.length > 0) {
+        const i = random.int(candidates.length);
+        const { row, col, direction } = candidates[i];
+        if (canPlaceWord(text, row, col, direction, grid, mask, false)) return candidates[i];
+        candidates[i] = candidates[candidates.length - 1];
+        candidates.pop();
+      }
+      return null;
+    };
+
+    let placedThisIteration = 0;
+    for (const wordData of newWords) {
+      if (wordLetters >= targetLetters) break;
+      if (wordData.word.length < minWordLength || wordData.word.length > maxWordLength) continue;
+      if (usedWords.has(wordData.word.toUpperCase())) continue;
+      if (overlapsHiddenWord(wordData.word.toUpperCase(), hiddenWords)) continue;
+
+      // Fill a pocket of exactly this size if there is one, otherwise anywhere
+      const position = (plan.has(wordData.word.length) ? pickTightFit(wordData.word) : null)
+        ?? positionIndex.pickPosition(wordData.word, options.allowOverlap, random, options.overlapWeight);
+      if (!position) continue;
+
+      const word: WordSearchWord = { ...toWordSearchWord(wordData, `generated-${nextId++}`), generated: true, region };
+      wordLetters += word.word.length - countCrossings(word.word, position, grid);
+      placeWordInGrid(word, position, grid, positionIndex);
+      words.push(word);
+      usedWords.add(word.word.toUpperCase());
+      hiddenWords.push(word.word.toUpperCase());
+      placedThisIteration++;
+
+      if (placedThisIteration % progressEvery === 0) {
+        await onProgress?.({
+          phase: 'placing',
+          step: `Iteration ${iteration}: Placed ${placedThisIteration} words (${wordLetters}/${targetLetters} letters)`,
+          grid: snapshotGrid(grid),
+          words: [...words]
+        });
+      }
+    }
+
+    // A few empty or repeated batches in a row means the source has nothing that fits
+    stalledBatches = placedThisIteration === 0 || newThisIteration === 0 ? stalledBatches + 1 : 0;
+    if (stalledBatches >= MAX_STALLED_BATCHES) {
+      return { stopReason: 'source-exhausted', sourceError: null };
+    }
+
+    await onProgress?.({
+      phase: 'generating',
+      step: `Completed iteration ${iteration}: ${wordLetters}/${targetLetters} letters`,
+      grid: snapshotGrid(grid),
+      words: [...words]
+    });
+  }
+
+  return { stopReason: 'target-reached', sourceError: null };
+}
+
+// Top-up passes after dropping generated words that read twice
+const AMBIGUITY_ROUNDS = 3;
+
+// Take out generated words that can be read a second time along letters of
+// other words, such as EAT across three crossing words. Filler re-rolls can't
+// break a run with no filler in it, so the generated word goes instead: the
+// one that is ambiguous, or the ones spelling out a caller's word again.
+// Returns how many words were removed.
+function dropAmbiguousGeneratedWords(
+  grid: GridCell[][],
+  words: WordSearchWord[],
+  positionIndexes: PlacementIndex[]
+): number {
+  const placedWords = words.filter(word => word.placed);
+  const occurrences = findAllOccurrences(grid, placedWords.map(word => word.word));
+  const generatedIds = new Set(placedWords.filter(word => word.generated).map(word => word.id));
+  const toRemove = new Set<string>();
+
+  for (const word of placedWords) {
+    const text = word.word.toUpperCase();
+    const ownKey = occurrenceKey(text.length, { row: word.startRow, col: word.startCol, direction: word.direction });
+    for (const occurrence of occurrences.get(text) ?? []) {
+      const cells = occurrenceCells(text.length, occurrence);
+      if (occurrenceKey(text.length, occurrence) === ownKey || !cells.every(({ row, col }) => grid[row][col].isWordLetter)) continue;
+
+      if (word.generated) {
+        toRemove.add(word.id);
+      } else {
+        cells.forEach(({ row, col }) => grid[row][col].wordIds.forEach(id => generatedIds.has(id) && toRemove.add(id)));
+      }
+    }
+  }
+
+  for (const word of placedWords.filter(word => toRemove.has(word.id))) {
+    for (const { row, col } of getWordCells(word)) {
+      const cell = grid[row][col];
+      cell.wordIds = cell.wordIds.filter(id => id !== word.id);
+      if (cell.wordIds.length === 0) {
+        cell.letter = '';
+        cell.isWordLetter = false;
+        positionIndexes.forEach(index => index.setLetter(row, col, ''));
+      }
+    }
+    words.splice(words.indexOf(word), 1);
+  }
+
+  return toRemove.size;
+}
+
+// Phase 3: fill every remaining available cell with a random letter
+async function fillEmptyCells(
+  grid: GridCell[][],
+  mask: boolean[][],
+  words: WordSearchWord[],
+  fillerLetter: () => string,
+  onProgress: GenerationOptions['onProgress']
+): Promise<number> {
+  const positionsToFill: { row: number; col: number }[] = [];
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[0].length; col++) {
+      if (mask[row][col] && !grid[row][col].letter) {
+        positionsToFill.push({ row, col });
+      }
+    }
+  }
+
+  const totalToFill = positionsToFill.length;
+  // Around 20 updates however big the grid is; snapshots of huge grids are expensive
+  const reportEvery = Math.max(50, Math.ceil(totalToFill / 20));
+  let filledCount = 0;
+
+  for (const { row, col } of positionsToFill) {
+    grid[row][col].letter = fillerLetter();
+    filledCount++;
+
+    // Report periodically and at the end for visual effect
+    if (filledCount % reportEvery === 0 || filledCount === totalToFill) {
+      await onProgress?.({
+        phase: 'filling',
+        step: `Filling spaces... (${filledCount}/${totalToFill})`,
+        grid: snapshotGrid(grid),
+        words: [...words]
+      });
+    }
+  }
+
+  return filledCount;
+}
+
+// Generate a complete puzzle for `mask`. The input words are copied, never
+// mutated; pass `null` as the word source to place only the given words. With
+// `dualRegion`, words are hidden on both sides of the mask, each in its own.
+export async function generateWordSearch(
+  mask: boolean[][],
+  words: WordInput[],
+  wordSource: WordSource | null,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> {
+  const resolvedOptions: ResolvedOptions = { ...DEFAULT_OPTIONS, ...options };
+  const { directions, fillerBias, onProgress } = resolvedOptions;
+  const seed = resolvedOptions.seed ?? randomSeed();
+  const random = createRandom(seed);
+
+  if (mask.length === 0 || mask[0].length === 0) {
+    throw new Error('Mask is empty. Cannot generate a puzzle without a grid.');
+  }
+
+  if (directions.length === 0) {
+    throw new Error('No word directions allowed. Enable at least one direction.');
+  }
+
+  // Every cell can hold words when both regions are in play
+  const regions: { region: MaskRegion; mask: boolean[][] }[] = resolvedOptions.dualRegion
+    ? [{ region: 'shape', mask }, { region: 'background', mask: invertMask(mask) }]
+    : [{ region: 'shape', mask }];
+  const wordMask = resolvedOptions.dualRegion ? mask.map(row => row.map(() => true)) : mask;
+
+  const grid = createGrid(wordMask, createFillerPicker(random, words.map(w => w.word), fillerBias));
+  if (resolvedOptions.dualRegion) {
+    grid.forEach((row, rowIndex) => row.forEach((cell, colIndex) => {
+      cell.region = mask[rowIndex][colIndex] ? 'shape' : 'background';
+    }));
+  }
+  const allWords = words.map((word, index) => toWordSearchWord(word, word.id ?? `input-${index + 1}`));
+  if (new Set(allWords.map(w => w.id)).size !== allWords.length) {
+    throw new Error('Word ids must be unique.');
+  }
+  // Without dual regions every word goes in the mask, whatever it's tagged
+  const wordsIn = (region: MaskRegion) => resolvedOptions.dualRegion
+    ? allWords.filter(w => (w.region ?? 'shape') === region)
+    : allWords;
+
+  await onProgress?.({
+    phase: 'grid',
+    step: 'Calculating word requirements...',
+    grid: snapshotGrid(grid),
+    words: [...allWords]
+  });
+
+  const positionIndexes = regions.map(({ mask: regionMask }) => createPlacementIndex(regionMask, directions, grid));
+  let searchBudgetReached = false;
+  for (const [i, { region, mask: regionMask }] of regions.entries()) {
+    const result = await placeExistingWords(grid, wordsIn(region), regionMask, positionIndexes[i], resolvedOptions, random, onProgress);
+    searchBudgetReached ||= result.budgetReached;
+  }
+
+  let coverageStopReason: CoverageStopReason = 'no-source';
+  let sourceError: string | null = null;
+  if (wordSource) {
+    // Words dropped for reading twice leave room, so top up again a few times
+    for (let round = 0; round < AMBIGUITY_ROUNDS; round++) {
+      // Reported for whichever region fell short first, if either did, and a
+      // failing source ahead of anything else
+      const results: GeneratedPlacementResult[] = [];
+      for (const [i, { region, mask: regionMask }] of regions.entries()) {
+        results.push(await placeGeneratedWords(grid, allWords, regionMask, region, positionIndexes[i], wordSource, random, resolvedOptions));
+      }
+      const shortfall = results.find(result => result.sourceError) ?? results.find(result => result.stopReason !== 'target-reached');
+      coverageStopReason = shortfall?.stopReason ?? 'target-reached';
+      sourceError = shortfall?.sourceError ?? null;
+      if (!resolvedOptions.verifyUnique || sourceError) break;
+
+      const removed = dropAmbiguousGeneratedWords(grid, allWords, positionIndexes);
+      if (removed === 0) break;
+    }
+    // The last round's removals can leave the grid short of a target it had reached
+    const targetLetters = Math.ceil(countAvailableCells(wordMask) * resolvedOptions.targetCoverage);
+    if (coverageStopReason === 'target-reached' && countWordLetters(grid, wordMask) < targetLetters) {
+      coverageStopReason = 'ambiguous-words';
+    }
+  }
+
+  const hiddenWords = allWords.filter(w => w.placed).map(w => w.word);
+  const fillerLetter = createFillerPicker(random, hiddenWords, fillerBias);
+  await fillEmptyCells(grid, wordMask, allWords, fillerLetter, onProgress);
+
+  // Upper-cased and de-duplicated; two-letter entries would block far too much
+  const blockedWords = [...new Set(resolvedOptions.blockedWords.map(w => w.toUpperCase()).filter(w => w.length >= 3))];
+  let cleanup: FillerCleanupResult = { unique: false, ambiguousWords: [], blockedWordsRemaining: [], rerolledCells: 0 };
+  if (resolvedOptions.verifyUnique || blockedWords.length > 0) {
+    await onProgress?.({
+      phase: 'verifying',
+      step: 'Checking for duplicate and blocked words...',
+      grid: snapshotGrid(grid),
+      words: [...allWords]
+    });
+    cleanup = cleanFillerLetters(
+      grid,
+      resolvedOptions.verifyUnique ? allWords : [],
+      blockedWords,
+      fillerLetter,
+      random
+    );
+  }
+
+  const availableCells = countAvailableCells(wordMask);
+  const wordLetters = countWordLetters(grid, wordMask);
+  const placedWords = allWords.filter(w => w.placed);
+  const emptyIndexes = new Map(regions.map(({ region, mask: regionMask }) => [region, createPlacementIndex(regionMask, directions)]));
+  const regionOf = (word: WordSearchWord): MaskRegion => resolvedOptions.dualRegion ? word.region ?? 'shape' : 'shape';
+
+  const report: GenerationReport = {
+    seed,
+    totalCells: mask.length * mask[0].length,
+    availableCells,
+    wordLetters,
+    fillerLetters: availableCells - wordLetters,
+    coverage: availableCells > 0 ? wordLetters / availableCells : 0,
+    targetCoverage: resolvedOptions.targetCoverage,
+    coverageStopReason,
+    sourceError,
+    wordToFillerRatio: availableCells > wordLetters ? wordLetters / (availableCells - wordLetters) : null,
+    placedWords: placedWords.length,
+    totalWords: allWords.length,
+    unplacedWords: allWords
+      .filter(w => !w.placed)
+      .map(w => ({ id: w.id, word: w.word, reason: explainUnplaced(w.word, emptyIndexes.get(regionOf(w))!) })),
+    overlapCount: countOverlaps(placedWords),
+    searchBudgetReached,
+    uniqueVerified: resolvedOptions.verifyUnique && cleanup.unique,
+    ambiguousWords: cleanup.ambiguousWords,
+    blockedWordsRemaining: cleanup.blockedWordsRemaining,
+    rerolledCells: cleanup.rerolledCells
+  };
+
+  console.log('📊 Generation report:', report);
+  return { grid, words: allWords, report };
+}
@@ -1,32 +1,73 @@
 import { create } from 'zustand';
 import { useGeminiStore, type WordWithHint } from './gemini';
+import {
+  toWordSearchWord,
+  type GenerationReport,
+  type GridCell,
+  type MaskRegion,
+  type PlacementMode,
+  type WordDirection,
+  type WordSearchWord
+} from './word-search-engine';
+import { createRandom, randomSeed } from './random';
+import { runGenerationInWorker, type WorkerGeneration } from './word-search-worker-client';
+import {
+  DEFAULT_BLOCKLIST_LOCALE,
+  getBlocklist,
+  loadExtraBlockedWords,
+  saveExtraBlockedWords,
+  type BlocklistLocale
+} from './blocklist';
+import { MIN_WORD_LENGTH, normalizeWord, type SeparatorPolicy } from './word-normalize';
+import { useImageStore } from './image-store';
+import { outlineMask, toGrayscale } from './threshold';
+import type { ToneMode } from './tone';
+import type { MosaicMode, Rgb } from './mosaic';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, hasUsableHint, type Difficulty, type WordListMode } from './difficulty';
 
-export interface WordSearchWord extends WordWithHint {
-  placed: boolean;
-  startRow: number;
-  startCol: number;
-  direction: 'horizontal' | 'vertical' | 'diagonal-down' | 'diagonal-up';
-}
+export type { GridCell, MaskRegion, PlacementMode, WordDirection, WordSearchWord } from './word-search-engine';
 
-interface GridCell {
-  letter: string;
-  isWordLetter: boolean;
-  wordIds: number[];
-}
+// Which part of the image holds words: the dark shape, the light background
+// around it, or both with a word list each
+export type MaskMode = 'dark' | 'light' | 'dual';
 
 interface WordSearchState {
   // Configuration
   charactersPerMm: number;
   gridWidth: number;
   gridHeight: number;
+  seed: number;
+  difficulty: Difficulty;
+  allowedDirections: WordDirection[];
+  minWordLength: number;
+  maxWordLength: number;
+  allowOverlap: boolean;
+  overlapWeight: number;
+  fillerBias: number;
+  wordListMode: WordListMode;
+  placementMode: PlacementMode;
+  placementSearchNodes: number; // Positions backtracking may try before keeping its best arrangement
+  targetCoverage: number;
+  blocklistLocale: BlocklistLocale | 'none';
+  extraBlockedWords: Record<BlocklistLocale, string[]>; // Added to each locale's list ('none' included), saved in this browser
+  theme: string; // Topic for generated words; empty means random words
+  backgroundTheme: string; // Topic for the background's words in dual-region puzzles
+  maskMode: MaskMode;
+  toneMode: ToneMode; // How letters follow the image's shading on screen and in print
+  mosaicMode: MosaicMode; // Whether letters or squares take the image's colours
+  paletteSize: number; // Colours the mosaic is reduced to; 0 for full colour
+  separatorPolicy: SeparatorPolicy;
+  foldDiacritics: boolean;
   
   // Words and puzzle data
   words: WordSearchWord[];
   grid: GridCell[][];
   availablePositions: boolean[][];
+  report: GenerationReport | null;
   
   // UI state
   isGenerating: boolean;
+  isGeneratingClues: boolean;
   generationStep: string;
   error: string | null;
   
@@ -38,10 +79,31 @@ interface WordSearchState {
 interface WordSearchActions {
   setCharactersPerMm: (value: number) => void;
   setPaperDimensions: (width: number, height: number) => void;
+  setSeed: (seed: number) => void;
+  randomizeSeed: () => void;
+  setDifficulty: (difficulty: Difficulty) => void;
+  setAllowedDirections: (directions: WordDirection[]) => void;
+  setPlacementMode: (mode: PlacementMode) => void;
+  setOverlapWeight: (weight: number) => void;
+  setTargetCoverage: (coverage: number) => void;
+  setBlocklistLocale: (locale: BlocklistLocale | 'none') => void;
+  setExtraBlockedWords: (locale: BlocklistLocale | 'none', words: string[]) => void;
+  setWordListMode: (mode: WordListMode) => void;
+  setTheme: (theme: string) => void;
+  setBackgroundTheme: (theme: string) => void;
+  setMaskMode: (mode: MaskMode) => void;
+  setToneMode: (mode: ToneMode) => void;
+  setMosaicMode: (mode: MosaicMode) => void;
+  setPaletteSize: (size: number) => void;
+  setSeparatorPolicy: (policy: SeparatorPolicy) => void;
+  setFoldDiacritics: (fold: boolean) => void;
   setWords: (words: WordWithHint[]) => void;
-  addWord: (word: WordWithHint) => void;
+  addWord: (word: WordWithHint, region?: MaskRegion) => void;
   removeWord: (index: number) => void;
+  updateWordHint: (id: string, hint: string) => void;
+  generateClues: () => Promise<void>;
   generatePuzzle: (thresholdImage: string) => Promise<void>;
+  cancelGeneration: () => void;
   shuffleWords: () => void;
   reset: () => void;
   clearError: () => void;
@@ -51,14 +113,48 @@ interface WordSearchStore extends WordSearchState {
   actions: WordSearchActions;
 }
 
+// Ids for words entered in the builder; generated words get theirs from the engine
+let nextWordId = 0;
+function createWordId(): string {
+  nextWordId++;
+  return `word-${nextWordId}`;
+}
+
+// The generation currently running in a worker, if any
+let activeGeneration: WorkerGeneration | null = null;
+
 const initialState: WordSearchState = {
   charactersPerMm: 7,
   gridWidth: 0,
   gridHeight: 0,
+  seed: randomSeed(),
+  difficulty: DEFAULT_DIFFICULTY,
+  allowedDirections: DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY].directions,
+  minWordLength: DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY].minWordLength,
+  maxWordLength: DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY].maxWordLength,
+  allowOverlap: DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY].allowOverlap,
+  overlapWeight: DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY].overlapWeight,
+  fillerBias: DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY].fillerBias,
+  wordListMode: DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY].wordListMode,
+  placementMode: 'random',
+  placementSearchNodes: 150_000,
+  targetCoverage: 0.85,
+  blocklistLocale: DEFAULT_BLOCKLIST_LOCALE,
+  extraBlockedWords: loadExtraBlockedWords(),
+  theme: '',
+  backgroundTheme: '',
+  maskMode: 'dark',
+  toneMode: 'off',
+  mosaicMode: 'off',
+  paletteSize: 0,
+  separatorPolicy: 'strip',
+  foldDiacritics: true,
   words: [],
   grid: [],
   availablePositions: [],
+  report: null,
   isGenerating: false,
+  isGeneratingClues: false,
   generationStep: '',
   error: null,
   paperWidth: 210, // A4 width in mm
@@ -106,28 +202,113 @@ export const useWordSearchStore = create<WordSearchStore>((set, get) => ({
       });
     },
     
+    setSeed: (seed: number) => {
+      console.log('🌱 Setting seed:', seed);
+      set({ seed });
+    },
+    
+    randomizeSeed: () => {
+      set({ seed: randomSeed() });
+    },
+    
+    setDifficulty: (difficulty: Difficulty) => {
+      console.log('🎚️ Setting difficulty:', difficulty);
+      const preset = DIFFICULTY_PRESETS[difficulty];
+      set({
+        difficulty,
+        allowedDirections: preset.directions,
+        minWordLength: preset.minWordLength,
+        maxWordLength: preset.maxWordLength,
+        allowOverlap: preset.allowOverlap,
+        overlapWeight: preset.overlapWeight,
+        fillerBias: preset.fillerBias,
+        wordListMode: preset.wordListMode
+      });
+    },
+    
+    setAllowedDirections: (directions: WordDirection[]) => {
+      console.log('🧭 Setting allowed directions:', directions);
+      set({ allowedDirections: directions });
+    },
+    
+    setPlacementMode: (mode: PlacementMode) => {
+      console.log('🧩 Setting placement mode:', mode);
+      set({ placementMode: mode });
+    },
+    
+    setOverlapWeight: (weight: number) => {
+      set({ overlapWeight: weight });
+    },
+    
+    setTargetCoverage: (coverage: number) => {
+      set({ targetCoverage: coverage });
+    },
+    
+    setBlocklistLocale: (locale: BlocklistLocale | 'none') => {
+      console.log('🚫 Setting blocklist locale:', locale);
+      set({ blocklistLocale: locale });
+    },
+    
+    setExtraBlockedWords: (locale: BlocklistLocale | 'none', words: string[]) => {
+      const extraBlockedWords = { ...get().extraBlockedWords, [locale]: words };
+      set({ extraBlockedWords });
+      saveExtraBlockedWords(extraBlockedWords);
+    },
+    
+    setTheme: (theme: string) => {
+      set({ theme });
+    },
+    
+    setBackgroundTheme: (theme: string) => {
+      set({ backgroundTheme: theme });
+    },
+    
+    setMaskMode: (mode: MaskMode) => {
+      console.log('🌓 Setting mask mode:', mode);
+      set({ maskMode: mode });
+    },
+    
+    setToneMode: (mode: ToneMode) => {
+      console.log('🎨 Setting tone mode:', mode);
+      set({ toneMode: mode });
+    },
+    
+    setMosaicMode: (mode: MosaicMode) => {
+      console.log('🎨 Setting mosaic mode:', mode);
+      set({ mosaicMode: mode });
+    },
+    
+    setPaletteSize: (size: number) => {
+      set({ paletteSize: size });
+    },
+    
+    setSeparatorPolicy: (policy: SeparatorPolicy) => {
+      console.log('✂️ Setting separator policy:', policy);
+      set(state => ({ separatorPolicy: policy, words: renormalizeWords({ ...state, separatorPolicy: policy }) }));
+    },
+    
+    setFoldDiacritics: (fold: boolean) => {
+      set(state => ({ foldDiacritics: fold, words: renormalizeWords({ ...state, foldDiacritics: fold }) }));
+    },
+    
+    setWordListMode: (mode: WordListMode) => {
+      console.log('🧩 Setting word list mode:', mode);
+      set({ wordListMode: mode });
+    },
+    
     setWords: (words: WordWithHint[]) => {
       console.log('📝 Setting words:', words.length);
-      const wordSearchWords: WordSearchWord[] = words.map(word => ({
-        ...word,
-        placed: false,
-        startRow: 0,
-        startCol: 0,
-        direction: 'horizontal' as const
+      set(state => ({
+        words: words.flatMap(word => toGridWords(word, state)).map(word => toWordSearchWord(word, createWordId()))
       }));
-      set({ words: wordSearchWords });
     },
     
-    addWord: (word: WordWithHint) => {
-      console.log('➕ Adding word:', word.word);
-      const newWord: WordSearchWord = {
-        ...word,
-        placed: false,
-        startRow: 0,
-        startCol: 0,
-        direction: 'horizontal'
-      };
-      set(state => ({ words: [...state.words, newWord] }));
+    addWord: (word: WordWithHint, region?: MaskRegion) => {
+      console.log('➕ Adding word:', word.word, region ?? '');
+      set(state => {
+        const added = toGridWords(word, state).map(gridWord => toWordSearchWord(gridWord, createWordId()));
+        return { words: [...state.words, ...added.map(addedWord => (region ? { ...addedWord, region } : addedWord))] };
+      });
     },
     
     removeWord: (index: number) => {
@@ -137,11 +318,62 @@ export const useWordSearchStore = create<WordSearchStore>((set, get) => ({
       }));
     },
     
+    updateWordHint: (id: string, hint: string) => {
+      set(state => ({
+        words: state.words.map(word => word.id === id ? { ...word, hint } : word)
+      }));
+    },
+    
+    // Ask the word provider for clues for every word that can't be shown as a
+    // clue yet; hints the user already wrote are left alone
+    generateClues: async () => {
+      const missing = get().words.filter(word => !hasUsableHint(word));
+      if (missing.length === 0) return;
+      
+      console.log('💡 Generating clues for', missing.length, 'words');
+      set({ isGeneratingClues: true });
+      try {
+        const clues = await useGeminiStore.getState().actions.generateHintsForWords(missing.map(word => word.word));
+        const cluesByWord = new Map(clues.map(clue => [clue.word.toUpperCase(), clue.hint]));
+        set(state => ({
+          words: state.words.map(word => {
+            const clue = cluesByWord.get(word.word.toUpperCase());
+            return clue && !hasUsableHint(word) ? { ...word, hint: clue } : word;
+          })
+        }));
+      } catch (error) {
+        // The word provider store keeps the message for the builder to show
+        console.error('❌ Failed to generate clues:', error);
+      } finally {
+        set({ isGeneratingClues: false });
+      }
+    },
+    
     generatePuzzle: async (thresholdImage: string) => {
-      const { gridWidth, gridHeight, words } = get();
+      const {
+        gridWidth,
+        gridHeight,
+        seed,
+        allowedDirections,
+        minWordLength,
+        maxWordLength,
+        allowOverlap,
+        overlapWeight,
+        fillerBias,
+        placementMode,
+        placementSearchNodes,
+        targetCoverage,
+        blocklistLocale,
+        extraBlockedWords,
+        theme,
+        backgroundTheme,
+        maskMode
+      } = get();
+      // Words the engine added last time are regenerated from the seed
+      const words = get().words.filter(word => !word.generated);
       
       console.log('🎮 Starting puzzle generation...');
-      console.log('📊 Grid dimensions:', { gridWidth, gridHeight });
+      console.log('📊 Grid dimensions:', { gridWidth, gridHeight, seed });
       console.log('📝 Word count:', words.length);
       
       if (gridWidth === 0 || gridHeight === 0) {
@@ -150,12 +382,31 @@ export const useWordSearchStore = create<WordSearchStore>((set, get) => ({
         return;
       }
       
+      // The grid may have shrunk since these were added
+      const tooLong = words.filter(word => word.word.length > Math.max(gridWidth, gridHeight));
+      if (tooLong.length > 0) {
+        console.log('❌ Words longer than the grid:', tooLong.map(word => word.word));
+        set({
+          error: `${tooLong.map(word => word.display ?? word.word).join(', ')} won't fit a ${gridWidth}×${gridHeight} grid. Remove them or use smaller letters.`
+        });
+        return;
+      }
+      
+      // Kept so a cancelled run can put the previous puzzle back
+      const previous = {
+        grid: get().grid,
+        words: get().words,
+        availablePositions: get().availablePositions,
+        report: get().report
+      };
+      let cancelled = false;
+      
       set({ isGenerating: true, error: null, generationStep: 'Creating empty grid...' });
       
       try {
         // Step 1: Create empty grid first to show structure
         console.log('🎯 Step 1: Creating empty grid...');
-        let grid: GridCell[][] = Array(gridHeight).fill(null).map(() =>
+        const emptyGrid: GridCell[][] = Array(gridHeight).fill(null).map(() =>
           Array(gridWidth).fill(null).map(() => ({
             letter: '',
             isWordLetter: false,
@@ -165,54 +416,87 @@ export const useWordSearchStore = create<WordSearchStore>((set, get) => ({
         
         // Update state to show empty grid
         set({ 
-          grid,
+          grid: emptyGrid,
+          report: null,
           generationStep: 'Analyzing image for available positions...' 
         });
         
+        // Cancelling before the worker starts just flags the run
+        activeGeneration = { result: Promise.resolve(null), cancel: () => { cancelled = true; } };
+        
         // Add small delay for visualization
         await new Promise(resolve => setTimeout(resolve, 800));
         
         // Step 2: Analyze threshold image to determine available positions
         console.log('🔍 Step 2: Analyzing threshold image...');
-        const {availablePositions, grid: analyzedGrid} = await analyzeThresholdImage(thresholdImage, gridWidth, gridHeight);
-
-        grid = analyzedGrid;
-        set({ grid: [...grid.map(row => [...row])] });
-        
-        // Update state to show available positions
+        const { maskStyle, strokeWidth, croppedImage, croppedColorImage } = useImageStore.getState();
+        const availablePositions = await analyzeThresholdImage(thresholdImage, gridWidth, gridHeight, {
+          invert: maskMode === 'light',
+          outlineStrokeWidth: maskStyle === 'outline' ? strokeWidth : 0
+        });
+        // Shading and colour for tone and mosaic rendering come from the photo, not the threshold
+        const photo = croppedColorImage ?? croppedImage;
+        const cellSamples = photo ? await sampleImageCells(photo, gridWidth, gridHeight) : null;
+        if (cancelled) {
+          set({ ...previous, isGenerating: false, generationStep: '' });
+          return;
+        }
         set({ 
           availablePositions, 
-          generationStep: 'Calculating word requirements...' 
+          generationStep: 'Placing words and generating new ones as needed...' 
         });
         
-        // Add delay to show available positions
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Step 3: Calculate how many characters can fit
-        const totalAvailableSpaces = availablePositions.flat().filter(Boolean).length;
-        console.log('🎯 Total available character spaces:', totalAvailableSpaces);
-        
-        // Step 4: Place words using the new algorithm with on-demand word generation
-        let allWords: WordSearchWord[] = [...words];
-        console.log('🎯 Step 4: Placing words with on-demand generation...');
-        set({ generationStep: 'Placing words and generating new ones as needed...' });
-        allWords = await newPlacementAlgorithmWithUpdates(grid, allWords, availablePositions, set, totalAvailableSpaces);
+        // Step 3: Run the placement engine in a worker, topping up with generated words
+        console.log('🎯 Step 3: Placing words with on-demand generation...');
+        activeGeneration = runGenerationInWorker({
+          mask: availablePositions,
+          words,
+          wordSource: ({ count, seed: wordSeed, minLength, maxLength, region }) => {
+            const { generateWords, generateWordsOfLength } = useGeminiStore.getState().actions;
+            const regionTheme = region === 'background' ? backgroundTheme : theme;
+            // Exact lengths come from gaps in the grid
+            return minLength === maxLength
+              ? generateWordsOfLength(count, minLength, wordSeed, regionTheme)
+              : generateWords(count, regionTheme, { seed: wordSeed, minLength, maxLength });
+          },
+          options: {
+            seed,
+            directions: allowedDirections,
+            minWordLength,
+            maxWordLength,
+            allowOverlap,
+            overlapWeight,
+            fillerBias,
+            placementMode,
+            searchNodeBudget: placementSearchNodes,
+            targetCoverage,
+            blockedWords: getBlocklist(blocklistLocale, extraBlockedWords[blocklistLocale]),
+            dualRegion: maskMode === 'dual'
+          },
+          onProgress: progress => {
+            set({
+              grid: progress.grid,
+              words: progress.words,
+              generationStep: progress.step
+            });
+          }
+        });
+        const result = await activeGeneration.result;
+        activeGeneration = null;
         
-        // Step 5: Fill remaining available spaces with random letters
-        console.log('🎲 Step 5: Filling with random letters...');
-        await fillEmptySpacesWithUpdates(grid, availablePositions, set);
+        if (!result) {
+          console.log('🛑 Puzzle generation cancelled, restoring previous puzzle');
+          set({ ...previous, isGenerating: false, generationStep: '' });
+          return;
+        }
         
         console.log('✅ Puzzle generation completed successfully');
-        const finalPlacedWords = allWords.filter(w => w.placed);
-        console.log('📊 Final stats:', {
-          wordsPlaced: finalPlacedWords.length,
-          totalWords: allWords.length,
-          gridFilled: grid.flat().filter(cell => cell.letter).length
-        });
-        
         set({
-          words: allWords,
-          grid,
+          words: result.words,
+          grid: cellSamples
+            ? result.grid.map((row, rowIndex) => row.map((cell, colIndex) => ({ ...cell, ...cellSamples[rowIndex][colIndex] })))
+            : result.grid,
+          report: result.report,
           isGenerating: false,
           generationStep: 'Complete!'
         });
@@ -222,8 +506,10 @@ export const useWordSearchStore = create<WordSearchStore>((set, get) => ({
         set({ generationStep: '' });
         
       } catch (error) {
+        activeGeneration = null;
         console.error('❌ Error generating puzzle:', error);
         set({
+          ...previous,
           error: error instanceof Error ? error.message : 'Failed to generate puzzle',
           isGenerating: false,
           generationStep: ''
@@ -231,15 +517,19 @@ export const useWordSearchStore = create<WordSearchStore>((set, get) => ({
       }
     },
     
+    cancelGeneration: () => {
+      activeGeneration?.cancel();
+    },
+    
     shuffleWords: () => {
-      const words = get().words;
-      const shuffledWords = [...words].sort(() => Math.random() - 0.5);
-      set({ words: shuffledWords });
+      const { words, seed } = get();
+      set({ words: createRandom(seed).shuffle(words) });
     },
     
     reset: () => {
       console.log('🔄 Resetting word search store');
-      set(initialState);
+      // Blocked words are a saved preference rather than part of the puzzle
+      set({ ...initialState, seed: randomSeed(), extraBlockedWords: get().extraBlockedWords });
     },
     
     clearError: () => {
@@ -248,8 +538,53 @@ export const useWordSearchStore = create<WordSearchStore>((set, get) => ({
   }
 }));
 
-// Helper function to analyze threshold image
-async function analyzeThresholdImage(imageUrl: string, gridWidth: number, gridHeight: number): Promise<{availablePositions: boolean[][], grid: GridCell[][]}> {
+// Every word reaches the list through here, whether typed, imported or
+// generated, so the grid only ever sees A-Z words it has room for. Entries that
+// can't be made to fit are dropped.
+function toGridWords(
+  entry: WordWithHint,
+  { separatorPolicy, foldDiacritics, gridWidth, gridHeight }: WordSearchState
+): WordWithHint[] {
+  const normalized = normalizeWord(entry.word, {
+    separators: separatorPolicy,
+    foldDiacritics,
+    minLength: MIN_WORD_LENGTH,
+    maxLength: Math.max(gridWidth, gridHeight)
+  });
+  return normalized.flatMap(({ word, display, problem }) => {
+    if (problem) {
+      console.warn('⚠️ Skipping word:', entry.word, problem);
+      return [];
+    }
+    // A display form set earlier, such as by the import preview, wins
+    const shown = entry.display ?? (display.toUpperCase() !== word ? display : undefined);
+    return [{ word, hint: entry.hint, ...(shown ? { display: shown } : {}) }];
+  });
+}
+
+// The word list redone from what the user wrote, after the normalisation
+// settings change. Words that come out the same keep their id and placement;
+// a word split in two keeps its id on the first part.
+function renormalizeWords(state: WordSearchState): WordSearchWord[] {
+  return state.words.flatMap(word => {
+    const gridWords = toGridWords({ word: word.display ?? word.word, hint: word.hint }, state);
+    if (gridWords.length === 1 && gridWords[0].word === word.word) return [word];
+    return gridWords.map((gridWord, i) => {
+      const renormalized = toWordSearchWord(gridWord, i === 0 ? word.id : createWordId());
+      return word.region ? { ...renormalized, region: word.region } : renormalized;
+    });
+  });
+}
+
+// Helper function to analyze threshold image. Inverted, the light pixels are
+// available instead; with a stroke width, only a band that many letters wide
+// along the shape's edges is.
+async function analyzeThresholdImage(
+  imageUrl: string,
+  gridWidth: number,
+  gridHeight: number,
+  { invert = false, outlineStrokeWidth = 0 }: { invert?: boolean; outlineStrokeWidth?: number } = {}
+): Promise<boolean[][]> {
   console.log('🔍 Analyzing threshold image for available positions...');
   
   return new Promise((resolve, reject) => {
@@ -269,39 +604,27 @@ async function analyzeThresholdImage(imageUrl: string, gridWidth: number, gridHe
         const imageData = ctx.getImageData(0, 0, gridWidth, gridHeight);
         const data = imageData.data;
         
+        // Dark/black pixels (close to black) are available for characters
+        let mask = new Uint8Array(gridWidth * gridHeight);
+        for (let i = 0; i < mask.length; i++) {
+          mask[i] = (data[i * 4] < 128) !== invert ? 0 : 255;
+        }
+        if (outlineStrokeWidth > 0) {
+          mask = outlineMask(mask, gridWidth, gridHeight, outlineStrokeWidth);
+        }
+        
         const availablePositions: boolean[][] = Array(gridHeight).fill(null).map(() => 
           Array(gridWidth).fill(false)
         );
-
-        const grid: GridCell[][] = Array(gridHeight).fill(null).map(() =>
-          Array(gridWidth).fill(null).map(() => ({
-            letter: '',
-            isWordLetter: false,
-            wordIds: []
-          }))
-        );
         
         let availableCount = 0;
         
-        // Check each pixel - dark/black pixels are available for characters
         for (let y = 0; y < gridHeight; y++) {
           for (let x = 0; x < gridWidth; x++) {
-            const index = (y * gridWidth + x) * 4;
-            const red = data[index];
-            
-            // If pixel is dark/black (close to black), it's available
-            if (red < 128) {
+            if (mask[y * gridWidth + x] === 0) {
               availablePositions[y][x] = true;
               availableCount++;
             }
-            else {
-              // If pixel is light/white (close to white), it's not available
-              // we fill it with a random letter
-              const randomLetter = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'[Math.floor(Math.random() * 26)];
-              grid[y][x].letter = randomLetter;
-              grid[y][x].isWordLetter = false;
-              grid[y][x].wordIds = [];
-            }
           }
         }
         
@@ -311,7 +634,7 @@ async function analyzeThresholdImage(imageUrl: string, gridWidth: number, gridHe
           coverage: `${((availableCount / (gridWidth * gridHeight)) * 100).toFixed(1)}%`
         });
         
-        resolve({availablePositions, grid});
+        resolve(availablePositions);
       } catch (error) {
         reject(error);
       }
@@ -322,398 +645,45 @@ async function analyzeThresholdImage(imageUrl: string, gridWidth: number, gridHe
   });
 }
 
-
-
-// Helper function to fill all the unfilled spaces with visual updates
-async function fillEmptySpacesWithUpdates(grid: GridCell[][], availablePositions: boolean[][], set: any): Promise<void> {
-  console.log('🎲 Filling empty spaces with random letters...');
-  
-  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-  let filledCount = 0;
-  
-  // Calculate only available positions that need filling
-  const positionsToFill: {row: number, col: number}[] = [];
-  for (let row = 0; row < grid.length; row++) {
-    for (let col = 0; col < grid[0].length; col++) {
-      if (availablePositions[row][col] && !grid[row][col].letter) {
-        positionsToFill.push({row, col});
-      }
-    }
-  }
-  
-  const totalToFill = positionsToFill.length;
-  console.log(`🎯 Found ${totalToFill} available positions to fill with random letters`);
-  
-  for (const {row, col} of positionsToFill) {
-    grid[row][col].letter = letters[Math.floor(Math.random() * letters.length)];
-    filledCount++;
-    
-    // Update state every 50 letters or at the end for visual effect
-    if (filledCount % 50 === 0 || filledCount === totalToFill) {
-      set((state: any) => ({
-        ...state,
-        grid: [...grid.map(row => [...row])],
-        generationStep: `Filling spaces... (${filledCount}/${totalToFill})`
-      }));
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-  }
-  
-  console.log(`✅ Filled ${filledCount} empty spaces with random letters`);
-}
-
-// Helper function to place word in grid with proper validation
-function placeWordInGrid(
-  word: WordSearchWord,
-  position: { row: number; col: number },
-  direction: WordSearchWord['direction'],
-  grid: GridCell[][]
-): void {
-  for (let i = 0; i < word.word.length; i++) {
-    let row = position.row;
-    let col = position.col;
-    
-    switch (direction) {
-      case 'horizontal':
-        col += i;
-        break;
-      case 'vertical':
-        row += i;
-        break;
-      case 'diagonal-down':
-        row += i;
-        col += i;
-        break;
-      case 'diagonal-up':
-        row -= i;
-        col += i;
-        break;
-    }
-    
-    // Only place the letter if the position is empty OR if it matches (overlap)
-    const existingLetter = grid[row][col].letter;
-    if (!existingLetter || existingLetter === word.word[i].toUpperCase()) {
-      grid[row][col].letter = word.word[i].toUpperCase();
-      grid[row][col].isWordLetter = true;
-      // Add word ID to track which words use this cell (for overlaps)
-      if (!grid[row][col].wordIds.includes(word.word.length)) { // Using word length as rough ID
-        grid[row][col].wordIds.push(word.word.length);
-      }
-    }
-  }
-}
-
-// Helper function to check if word can be placed at position with proper overlap validation
-function canPlaceWord(
-  word: string,
-  startRow: number,
-  startCol: number,
-  direction: WordSearchWord['direction'],
-  grid: GridCell[][],
-  availablePositions: boolean[][]
-): boolean {
-  const gridHeight = grid.length;
-  const gridWidth = grid[0].length;
-  
-  for (let i = 0; i < word.length; i++) {
-    let row = startRow;
-    let col = startCol;
-    
-    switch (direction) {
-      case 'horizontal':
-        col += i;
-        break;
-      case 'vertical':
-        row += i;
-        break;
-      case 'diagonal-down':
-        row += i;
-        col += i;
-        break;
-      case 'diagonal-up':
-        row -= i;
-        col += i;
-        break;
-    }
-    
-    // Check bounds
-    if (row < 0 || row >= gridHeight || col < 0 || col >= gridWidth) {
-      return false;
-    }
-    
-    // Check if position is available in threshold image
-    if (!availablePositions[row][col]) {
-      return false;
-    }
-    
-    // FIXED: Check if position is already occupied by a different letter (proper overlap validation)
-    const existingLetter = grid[row][col].letter;
-    if (existingLetter && existingLetter !== word[i].toUpperCase()) {
-      return false; // Cannot place - letters don't match
-    }
-  }
-  
-  return true;
-}
-
-async function newPlacementAlgorithmWithUpdates(
-  grid: GridCell[][],
-  words: WordSearchWord[],
-  availablePositions: boolean[][],
-  set: any,
-  totalAvailableSpaces: number
-): Promise<WordSearchWord[]> {
-  console.log('🆕 Starting simplified placement algorithm...');
-  
-  let allWords = [...words];
-  
-  // Phase 1: Place any existing words first
-  console.log('📍 Phase 1: Placing existing words...');
-  allWords = await placeExistingWordsSystematically(grid, allWords, availablePositions, set);
-  
-  // Phase 2: Simple iterative word generation and placement
-  console.log('🔤 Phase 2: Iterative word generation and placement...');
-  allWords = await simpleIterativeWordPlacement(grid, allWords, availablePositions, set, totalAvailableSpaces);
-  
-  // Phase 3: Fill remaining spaces with random letters
-  console.log('🎲 Phase 3: Filling remaining spaces with random letters...');
-  await fillRemainingSpacesWithRandomLetters(grid, availablePositions, set);
-  
-  const finalPlacedCount = allWords.filter(w => w.placed).length;
-  console.log(`✅ Simplified algorithm results: ${finalPlacedCount}/${allWords.length} words placed`);
-  
-  return allWords;
-}
-
-// New simplified iterative approach
-async function simpleIterativeWordPlacement(
-  grid: GridCell[][],
-  words: WordSearchWord[],
-  availablePositions: boolean[][],
-  set: any,
-  totalAvailableSpaces: number
-): Promise<WordSearchWord[]> {
-  
-  const allWords = [...words];
-  let currentPlacedCharacters = allWords.filter(w => w.placed).reduce((sum, w) => sum + w.word.length, 0);
-  let iterationCount = 0;
-  const maxIterations = 50; // Prevent infinite loops
-  
-  console.log(`🎯 Starting iterative placement: ${currentPlacedCharacters}/${totalAvailableSpaces} characters`);
-  
-  while (currentPlacedCharacters < totalAvailableSpaces * 0.85 && iterationCount < maxIterations) {
-    iterationCount++;
-    
-    // Calculate remaining space
-    const remainingSpaces = totalAvailableSpaces - currentPlacedCharacters;
-    console.log(`🔄 Iteration ${iterationCount}: ${remainingSpaces} spaces remaining`);
-    
-    const batchSize = 5;
-    let wordsPlacedThisIteration = 0;
-    
-    try {
-      set((state: any) => ({
-        ...state,
-        generationStep: `Iteration ${iterationCount}: Generating ${batchSize} words...`
-      }));
-      
-      const geminiStore = useGeminiStore.getState();
-      const newWords = await geminiStore.actions.generateWords(batchSize);
-      
-      console.log(`📝 Generated ${newWords.length} words in iteration ${iterationCount}`);
-      
-      // Try to place each generated word
-      for (const wordData of newWords) {
-        if (wordData.word.length < 3) continue; // Skip short words
+// Average colour and brightness (0 black to 1 white) of the image under each
+// cell. Transparent areas, such as a removed background, count as white.
+async function sampleImageCells(
+  imageUrl: string,
+  gridWidth: number,
+  gridHeight: number
+): Promise<{ luminance: number; color: Rgb }[][]> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context');
         
-        // Find all valid positions for this word
-        const validPositions = findAllValidPositionsForWord(
-          wordData.word, 
-          grid, 
-          availablePositions
-        );
+        canvas.width = gridWidth;
+        canvas.height = gridHeight;
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, gridWidth, gridHeight);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(img, 0, 0, gridWidth, gridHeight);
         
-        if (validPositions.length > 0) {
-          // Pick a random valid position
-          const position = validPositions[Math.floor(Math.random() * validPositions.length)];
-          
-          // Create new word search word
-          const newWordSearchWord: WordSearchWord = {
-            ...wordData,
-            placed: true,
-            startRow: position.row,
-            startCol: position.col,
-            direction: position.direction
-          };
-          
-          // Place the word in grid
-          placeWordInGrid(newWordSearchWord, position, position.direction, grid);
-          
-          // Add to words array
-          allWords.push(newWordSearchWord);
-          wordsPlacedThisIteration++;
-          currentPlacedCharacters += newWordSearchWord.word.length;
-          
-          console.log(`✅ Placed "${newWordSearchWord.word}" (${newWordSearchWord.word.length} chars) at (${position.row}, ${position.col}) ${position.direction}`);
-          
-          // Update UI every few placements
-          if (wordsPlacedThisIteration % 2 === 0) {
-            set((state: any) => ({
-              ...state,
-              grid: [...grid.map(row => [...row])],
-              words: [...allWords],
-              generationStep: `Iteration ${iterationCount}: Placed ${wordsPlacedThisIteration} words (${currentPlacedCharacters}/${totalAvailableSpaces})`
-            }));
-            
-            await new Promise(resolve => setTimeout(resolve, 200));
-          }
-        }
-      }
-      
-      console.log(`📊 Iteration ${iterationCount} complete: placed ${wordsPlacedThisIteration} words`);
-      
-      // If we couldn't place any words this iteration, we're likely done
-      if (wordsPlacedThisIteration === 0) {
-        console.log('🔚 No words placed this iteration, stopping...');
-        break;
+        const data = ctx.getImageData(0, 0, gridWidth, gridHeight).data;
+        const gray = toGrayscale(data);
+        resolve(Array.from({ length: gridHeight }, (_, y) =>
+          Array.from({ length: gridWidth }, (_, x) => {
+            const index = y * gridWidth + x;
+            return {
+              luminance: gray[index] / 255,
+              color: [data[index * 4], data[index * 4 + 1], data[index * 4 + 2]] as Rgb
+            };
+          })
+        ));
+      } catch (error) {
+        reject(error);
       }
-      
-      // Update UI after each iteration
-      set((state: any) => ({
-        ...state,
-        grid: [...grid.map(row => [...row])],
-        words: [...allWords],
-        generationStep: `Completed iteration ${iterationCount}: ${currentPlacedCharacters}/${totalAvailableSpaces} characters`
-      }));
-      
-      await new Promise(resolve => setTimeout(resolve, 300));
-      
-    } catch (error) {
-      console.log(`⚠️ Error in iteration ${iterationCount}:`, error);
-      break;
-    }
-  }
-  
-  const finalPlacedWords = allWords.filter(w => w.placed).length;
-  const fillPercentage = ((currentPlacedCharacters / totalAvailableSpaces) * 100).toFixed(1);
-  
-  console.log(`🎯 Final results: ${finalPlacedWords} words placed, ${currentPlacedCharacters}/${totalAvailableSpaces} characters (${fillPercentage}%)`);
-  
-  return allWords;
-}
-
-// Phase 1: Place existing words systematically
-async function placeExistingWordsSystematically(
-  grid: GridCell[][],
-  words: WordSearchWord[],
-  availablePositions: boolean[][],
-  set: any
-): Promise<WordSearchWord[]> {
-  
-  // Sort words by length (longest first for better placement)
-  const sortedWords = [...words].sort((a, b) => b.word.length - a.word.length);
-  let placedCount = words.filter(w => w.placed).length; // Count already placed
-  
-  for (const word of sortedWords) {
-    if (word.placed) continue;
-    
-    // Find ALL valid positions for this word
-    const validPositions = findAllValidPositionsForWord(
-      word.word, 
-      grid, 
-      availablePositions
-    );
+    };
     
-    if (validPositions.length > 0) {
-      // Pick random position from valid ones
-      const position = validPositions[Math.floor(Math.random() * validPositions.length)];
-      
-      // Place the word
-      placeWordInGrid(word, position, position.direction, grid);
-      word.placed = true;
-      word.startRow = position.row;
-      word.startCol = position.col;
-      word.direction = position.direction;
-      
-      placedCount++;
-      console.log(`✅ Placed "${word.word}" at (${position.row}, ${position.col}) ${position.direction}`);
-      
-      // Update UI
-      set((state: any) => ({
-        ...state,
-        grid: [...grid.map(row => [...row])],
-        words: [...words],
-        generationStep: `Placing existing words... (${placedCount}/${words.length})`
-      }));
-      
-      await new Promise(resolve => setTimeout(resolve, 200));
-    }
-  }
-  
-  console.log(`📊 Placed ${placedCount - words.filter(w => w.placed).length} existing words`);
-  return words;
-}
-
-// Helper: Find all valid positions for a specific word
-function findAllValidPositionsForWord(
-  word: string,
-  grid: GridCell[][],
-  availablePositions: boolean[][]
-): Array<{ row: number; col: number; direction: WordSearchWord['direction'] }> {
-  
-  const positions: Array<{ row: number; col: number; direction: WordSearchWord['direction'] }> = [];
-  const directions: WordSearchWord['direction'][] = ['horizontal', 'vertical', 'diagonal-down', 'diagonal-up'];
-  
-  // Check every position in grid
-  for (let row = 0; row < grid.length; row++) {
-    for (let col = 0; col < grid[0].length; col++) {
-      for (const direction of directions) {
-        if (canPlaceWord(word, row, col, direction, grid, availablePositions)) {
-          positions.push({ row, col, direction });
-        }
-      }
-    }
-  }
-  
-  return positions;
+    img.onerror = () => reject(new Error('Failed to load image for shading and colour'));
+    img.src = imageUrl;
+  });
 }
-
-// Helper function to fill remaining spaces with random letters
-async function fillRemainingSpacesWithRandomLetters(grid: GridCell[][], availablePositions: boolean[][], set: any): Promise<void> {
-  console.log('🎲 Filling remaining spaces with random letters...');
-  
-  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-  let filledCount = 0;
-  
-  // Calculate only available positions that need filling
-  const positionsToFill: {row: number, col: number}[] = [];
-  for (let row = 0; row < grid.length; row++) {
-    for (let col = 0; col < grid[0].length; col++) {
-      if (availablePositions[row][col] && !grid[row][col].letter) {
-        positionsToFill.push({row, col});
-      }
-    }
-  }
-  
-  const totalToFill = positionsToFill.length;
-  console.log(`🎯 Found ${totalToFill} available positions to fill with random letters`);
-  
-  for (const {row, col} of positionsToFill) {
-    grid[row][col].letter = letters[Math.floor(Math.random() * letters.length)];
-    filledCount++;
-    
-    // Update state every 50 letters or at the end for visual effect
-    if (filledCount % 50 === 0 || filledCount === totalToFill) {
-      set((state: any) => ({
-        ...state,
-        grid: [...grid.map(row => [...row])],
-        generationStep: `Filling spaces... (${filledCount}/${totalToFill})`
-      }));
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-  }
-  
-  console.log(`✅ Filled ${filledCount} empty spaces with random letters`);
-}
\ No newline at end of file
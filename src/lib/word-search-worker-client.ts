@@ -0,0 +1,88 @@
+import type { GenerationProgress, GenerationResult, WordInput, WordSource } from './word-search-engine';
+import type { WorkerGenerationOptions, WorkerRequest, WorkerResponse } from './word-search-worker';
+
+interface WorkerGenerationParams {
+  mask: boolean[][];
+  words: WordInput[];
+  wordSource: WordSource | null;
+  options: WorkerGenerationOptions;
+  onProgress: (progress: GenerationProgress) => void;
+}
+
+export interface WorkerGeneration {
+  result: Promise<GenerationResult | null>; // null when cancelled
+  cancel: () => void;
+}
+
+// Run generateWordSearch in a fresh worker, answering its word requests from
+// `wordSource` on this thread. Cancelling terminates the worker outright.
+export function runGenerationInWorker({
+  mask,
+  words,
+  wordSource,
+  options,
+  onProgress
+}: WorkerGenerationParams): WorkerGeneration {
+  const worker = new Worker(new URL('./word-search-worker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: GenerationResult | null) => void = () => {};
+  let finished = false;
+
+  const send = (message: WorkerRequest) => worker.postMessage(message);
+
+  const finish = () => {
+    finished = true;
+    worker.terminate();
+  };
+
+  const result = new Promise<GenerationResult | null>((resolve, reject) => {
+    settle = resolve;
+
+    worker.onmessage = async (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress(message.progress);
+          break;
+        case 'request-words':
+          try {
+            const generated = wordSource ? await wordSource(message.request) : [];
+            if (!finished) send({ type: 'words', requestId: message.requestId, words: generated });
+          } catch (error) {
+            if (!finished) {
+              send({
+                type: 'words-error',
+                requestId: message.requestId,
+                message: error instanceof Error ? error.message : 'Failed to generate words'
+              });
+            }
+          }
+          break;
+        case 'done':
+          finish();
+          resolve(message.result);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = event => {
+      finish();
+      reject(new Error(event.message || 'Puzzle worker crashed'));
+    };
+  });
+
+  send({ type: 'generate', mask, words, useWordSource: wordSource !== null, options });
+
+  return {
+    result,
+    cancel: () => {
+      if (finished) return;
+      console.log('🛑 Cancelling puzzle generation');
+      finish();
+      settle(null);
+    }
+  };
+}
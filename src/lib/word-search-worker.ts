@@ -0,0 +1,94 @@
+// Web Worker that runs the placement engine off the main thread.
+//
+// The engine is pure, so everything it needs crosses as plain data except the
+// word source: generated words come from stores that live on the main thread,
+// so the worker asks for them with a `request-words` message and waits for the
+// matching `words` reply.
+
+import {
+  generateWordSearch,
+  type GenerationOptions,
+  type GenerationPhase,
+  type GenerationProgress,
+  type GenerationResult,
+  type WordInput,
+  type WordRequest
+} from './word-search-engine';
+import type { WordWithHint } from './gemini';
+
+// Options minus the progress callback, which can't be posted
+export type WorkerGenerationOptions = Omit<GenerationOptions, 'onProgress'>;
+
+export type WorkerRequest =
+  | {
+      type: 'generate';
+      mask: boolean[][];
+      words: WordInput[];
+      useWordSource: boolean;
+      options: WorkerGenerationOptions;
+    }
+  | { type: 'words'; requestId: number; words: WordWithHint[] }
+  | { type: 'words-error'; requestId: number; message: string };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'request-words'; requestId: number; request: WordRequest }
+  | { type: 'done'; result: GenerationResult }
+  | { type: 'error'; message: string };
+
+// Fewest milliseconds between progress posts within one phase. Snapshots of
+// big grids are costly to copy across, and the engine doesn't wait for them.
+const PROGRESS_INTERVAL_MS = 100;
+
+const pendingWordRequests = new Map<number, { resolve: (words: WordWithHint[]) => void; reject: (error: Error) => void }>();
+let nextRequestId = 0;
+
+function post(message: WorkerResponse): void {
+  self.postMessage(message);
+}
+
+function requestWords(request: WordRequest): Promise<WordWithHint[]> {
+  nextRequestId++;
+  const requestId = nextRequestId;
+  return new Promise((resolve, reject) => {
+    pendingWordRequests.set(requestId, { resolve, reject });
+    post({ type: 'request-words', requestId, request });
+  });
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'words' || message.type === 'words-error') {
+    const pending = pendingWordRequests.get(message.requestId);
+    pendingWordRequests.delete(message.requestId);
+    if (message.type === 'words') pending?.resolve(message.words);
+    else pending?.reject(new Error(message.message));
+    return;
+  }
+
+  let lastPhase: GenerationPhase | null = null;
+  let lastPostedAt = 0;
+
+  try {
+    const result = await generateWordSearch(
+      message.mask,
+      message.words,
+      message.useWordSource ? requestWords : null,
+      {
+        ...message.options,
+        // A new phase always gets through so its step shows
+        onProgress: progress => {
+          const now = performance.now();
+          if (progress.phase === lastPhase && now - lastPostedAt < PROGRESS_INTERVAL_MS) return;
+          lastPhase = progress.phase;
+          lastPostedAt = now;
+          post({ type: 'progress', progress });
+        }
+      }
+    );
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to generate puzzle' });
+  }
+};